@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const dataDir = path.join(__dirname, 'src', 'data');
+// Figurinhas das conquistas também são ícones OpenMoji
+const achievementsFile = path.join(__dirname, 'src', 'content', 'achievements.json');
+const openmojiDir = path.join(__dirname, 'node_modules', 'openmoji', 'color', 'svg');
+// Pasta gerada (ignorada pelo git) e importada por src/utils/icons.ts
+const outputDir = path.join(__dirname, 'src', 'assets', 'openmoji');
+
+// Coletar todos os códigos de ícone usados nos arquivos de dados
+function collectIconCodes() {
+  const codes = new Map();
+
+  const files = fs.readdirSync(dataDir).filter((f) => f.endsWith('.json')).sort().map((f) => path.join(dataDir, f));
+
+  for (const filePath of [...files, achievementsFile]) {
+    const file = path.basename(filePath);
+    const items = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!Array.isArray(items)) continue;
+
+    for (const item of items) {
+      if (typeof item?.icon !== 'string') continue;
+      if (!codes.has(item.icon)) codes.set(item.icon, []);
+      codes.get(item.icon).push(`${file} [${item.id}]`);
+    }
+  }
+
+  return codes;
+}
+
+function main() {
+  console.log('🖼️  Copiando ícones OpenMoji usados pelo conteúdo...\n');
+
+  if (!fs.existsSync(openmojiDir)) {
+    console.error('❌ Pacote openmoji não encontrado. Rode "npm install".');
+    process.exit(1);
+  }
+
+  const codes = collectIconCodes();
+  const missing = [...codes.entries()].filter(([code]) => !fs.existsSync(path.join(openmojiDir, `${code}.svg`)));
+
+  if (missing.length > 0) {
+    console.error(`❌ ${missing.length} código(s) não existem no OpenMoji:`);
+    missing.forEach(([code, usages]) => console.error(`  - ${code}: ${usages.join(', ')}`));
+    process.exit(1);
+  }
+
+  // Recriar a pasta para não deixar ícones que deixaram de ser usados
+  fs.rmSync(outputDir, { recursive: true, force: true });
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  for (const code of codes.keys()) {
+    fs.copyFileSync(path.join(openmojiDir, `${code}.svg`), path.join(outputDir, `${code}.svg`));
+  }
+
+  console.log(`✅ ${codes.size} ícones copiados para src/assets/openmoji`);
+}
+
+main();
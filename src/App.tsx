@@ -2,14 +2,26 @@ import React, { useEffect, lazy, Suspense } from 'react'
 import { Routes, Route } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import Navigation from './components/Navigation'
+import OfflineStatus from './components/OfflineStatus'
+import BreakScreen from './components/BreakScreen'
+import AchievementUnlock from './components/AchievementUnlock'
+import { startScreenTimeTracking } from './utils/screenTime'
 
 // Lazy load páginas para melhor performance (code splitting)
 const Home = lazy(() => import('./pages/Home'))
-const Letters = lazy(() => import('./pages/Letters'))
-const Numbers = lazy(() => import('./pages/Numbers'))
-const Colors = lazy(() => import('./pages/Colors'))
+const Topic = lazy(() => import('./pages/Topic'))
+const Topics = lazy(() => import('./pages/Topics'))
 const ColorsQuiz = lazy(() => import('./pages/ColorsQuiz'))
 const SyllableGame = lazy(() => import('./pages/SyllableGame'))
+const NumbersQuiz = lazy(() => import('./pages/NumbersQuiz'))
+const LettersQuiz = lazy(() => import('./pages/LettersQuiz'))
+const Memory = lazy(() => import('./pages/Memory'))
+const Tracing = lazy(() => import('./pages/Tracing'))
+const ColorMixing = lazy(() => import('./pages/ColorMixing'))
+const MathGame = lazy(() => import('./pages/MathGame'))
+const Settings = lazy(() => import('./pages/Settings'))
+const Parents = lazy(() => import('./pages/Parents'))
+const Stickers = lazy(() => import('./pages/Stickers'))
 
 // Fallback component para carregamento
 const LoadingFallback = () => (
@@ -33,6 +45,9 @@ export default function App() {
     htmlElement.setAttribute('lang', fullLangCode)
   }, [i18n.language])
 
+  // Contar o tempo de tela enquanto a aba estiver visível
+  useEffect(() => startScreenTimeTracking(), [])
+
   return (
     <div className="h-screen text-white relative flex flex-col">
       <Navigation />
@@ -40,14 +55,29 @@ export default function App() {
         <Suspense fallback={<LoadingFallback />}>
           <Routes>
             <Route path="/" element={<Home />} />
-            <Route path="/letters" element={<Letters />} />
-            <Route path="/numbers" element={<Numbers />} />
-            <Route path="/colors" element={<Colors />} />
+            {/* Temas embutidos mantêm as rotas antigas */}
+            <Route path="/letters" element={<Topic packId="letters" />} />
+            <Route path="/numbers" element={<Topic packId="numbers" />} />
+            <Route path="/colors" element={<Topic packId="colors" />} />
+            <Route path="/topics" element={<Topics />} />
+            <Route path="/topics/:packId" element={<Topic />} />
             <Route path="/colors-quiz" element={<ColorsQuiz />} />
             <Route path="/syllable-game" element={<SyllableGame />} />
+            <Route path="/numbers-quiz" element={<NumbersQuiz />} />
+            <Route path="/letters-quiz" element={<LettersQuiz />} />
+            <Route path="/memory" element={<Memory />} />
+            <Route path="/tracing" element={<Tracing />} />
+            <Route path="/color-mixing" element={<ColorMixing />} />
+            <Route path="/math" element={<MathGame />} />
+            <Route path="/settings" element={<Settings />} />
+            <Route path="/parents" element={<Parents />} />
+            <Route path="/stickers" element={<Stickers />} />
           </Routes>
         </Suspense>
       </main>
+      <OfflineStatus />
+      <AchievementUnlock />
+      <BreakScreen />
     </div>
   )
 }
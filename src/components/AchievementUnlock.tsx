@@ -0,0 +1,67 @@
+import { useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { AnimatePresence, motion } from 'framer-motion'
+import { getItemText } from '../content'
+import { getSpeechLang } from '../i18n/languages'
+import { enqueueSpeech } from '../utils/speak'
+import { getIconUrl } from '../utils/icons'
+import { playSound } from '../utils/sounds'
+import { useAchievements, dismissUnlock } from '../utils/achievements'
+import Confetti from './Confetti'
+
+// Tempo que a figurinha nova fica na tela
+const UNLOCK_VISIBLE_MS = 4000
+
+/**
+ * Animação de figurinha nova quando uma conquista é ganha
+ * Mostra uma de cada vez, na ordem em que foram ganhas
+ */
+export default function AchievementUnlock() {
+  const { t, i18n } = useTranslation()
+  const { pending } = useAchievements()
+  const achievement = pending[0]
+
+  useEffect(() => {
+    if (!achievement) return
+    const title = getItemText(achievement.title, i18n.language)
+    playSound('streak')
+    // Na fila para não cortar a fala do jogo
+    enqueueSpeech(t('stickers.unlocked', { title }), getSpeechLang(i18n.language))
+    const timer = setTimeout(dismissUnlock, UNLOCK_VISIBLE_MS)
+    return () => clearTimeout(timer)
+  }, [achievement])
+
+  return (
+    <AnimatePresence>
+      {achievement && (
+        <motion.div
+          key={achievement.id}
+          className="fixed inset-0 z-[9600] flex items-center justify-center bg-black/40 p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={dismissUnlock}
+        >
+          <Confetti count={60} />
+          <motion.div
+            className="flex flex-col items-center gap-3 px-8 py-6 rounded-3xl bg-gradient-to-br from-yellow-300 to-orange-400 text-slate-900 shadow-2xl text-center"
+            initial={{ scale: 0, rotate: -20 }}
+            animate={{ scale: 1, rotate: 0 }}
+            transition={{ type: 'spring', stiffness: 200, damping: 12 }}
+          >
+            <p className="text-sm font-bold uppercase tracking-wide">{t('stickers.newSticker') || 'Nova figurinha!'}</p>
+            <motion.img
+              src={getIconUrl(achievement.icon)}
+              alt=""
+              className="w-32 h-32 drop-shadow-lg"
+              animate={{ rotate: [0, -8, 8, 0], scale: [1, 1.1, 1] }}
+              transition={{ duration: 1.2, repeat: Infinity }}
+            />
+            <p className="text-2xl font-bold">{getItemText(achievement.title, i18n.language)}</p>
+            <p className="text-sm font-semibold">{getItemText(achievement.description, i18n.language)}</p>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { getItemText, localizeIssue } from '../content'
+import {
+  exportBackup,
+  readBackupFile,
+  planImport,
+  applyImport,
+  BackupValidationError,
+  type Backup,
+  type ImportPlan,
+  type ImportStrategy,
+} from '../utils/backup'
+import { toDayKey } from '../utils/progress'
+import GrownUpGate from './GrownUpGate'
+
+/**
+ * Exportar e importar o backup do app, com resumo do que muda antes de aplicar
+ * Importar pode apagar perfis e trocar os limites de tempo, então pede a pergunta de adulto
+ */
+export default function BackupPanel() {
+  const { t, i18n } = useTranslation()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [backup, setBackup] = useState<Backup | null>(null)
+  const [strategy, setStrategy] = useState<ImportStrategy>('merge')
+  const [replaceLimits, setReplaceLimits] = useState(false)
+  const [isUnlocked, setIsUnlocked] = useState(false)
+  const [showGate, setShowGate] = useState(false)
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [messages, setMessages] = useState<string[]>([])
+
+  const showError = (error: unknown) => setMessages(['❌ ' + t('backup.failed', { error: (error as Error).message })])
+
+  // Recalcular o resumo ao trocar entre juntar e substituir
+  useEffect(() => {
+    if (!backup) return
+    let active = true
+    setPlan(null)
+    planImport(backup, strategy, replaceLimits)
+      .then((next) => active && setPlan(next))
+      .catch(showError)
+    return () => {
+      active = false
+    }
+  }, [backup, strategy, replaceLimits])
+
+  const handleExport = async () => {
+    setMessages([])
+    try {
+      const url = URL.createObjectURL(await exportBackup())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `aprendeplay-backup-${toDayKey(Date.now())}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      showError(error)
+    }
+  }
+
+  const handleImport = () => {
+    if (isUnlocked) {
+      inputRef.current?.click()
+      return
+    }
+    setShowGate(true)
+  }
+
+  const handleUnlock = () => {
+    setIsUnlocked(true)
+    setShowGate(false)
+    inputRef.current?.click()
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setMessages([])
+    setPlan(null)
+    setReplaceLimits(false)
+    try {
+      setBackup(await readBackupFile(file))
+    } catch (error) {
+      setBackup(null)
+      setMessages(
+        error instanceof BackupValidationError
+          ? error.issues.map((issue) => '❌ ' + localizeIssue(issue, t))
+          : ['❌ ' + t('backup.failed', { error: (error as Error).message })]
+      )
+    }
+  }
+
+  const handleApply = async () => {
+    if (!plan) return
+    try {
+      await applyImport(plan)
+      setMessages(['✅ ' + (t('backup.done') || 'Backup importado')])
+    } catch (error) {
+      showError(error)
+    }
+    setBackup(null)
+    setPlan(null)
+  }
+
+  const cancel = () => {
+    setBackup(null)
+    setPlan(null)
+  }
+
+  const summaryLines = (current: ImportPlan): string[] => {
+    const { summary } = current
+    const names = (list: string[]) => list.join(', ')
+    const titles = (list: typeof summary.packsAdded) => list.map((title) => getItemText(title, i18n.language)).join(', ')
+    return [
+      summary.profilesAdded.length > 0 && t('backup.profilesAdded', { names: names(summary.profilesAdded) }),
+      summary.profilesUpdated.length > 0 && t('backup.profilesUpdated', { names: names(summary.profilesUpdated) }),
+      summary.profilesRemoved.length > 0 && '⚠️ ' + t('backup.profilesRemoved', { names: names(summary.profilesRemoved) }),
+      summary.progressEntries > 0 && t('backup.progress', { count: summary.progressEntries }),
+      summary.eventsAdded > 0 && t('backup.events', { count: summary.eventsAdded }),
+      summary.packsAdded.length > 0 && t('backup.packsAdded', { names: titles(summary.packsAdded) }),
+      summary.packsReplaced.length > 0 && t('backup.packsReplaced', { names: titles(summary.packsReplaced) }),
+      summary.packsRemoved.length > 0 && '⚠️ ' + t('backup.packsRemoved', { names: titles(summary.packsRemoved) }),
+      summary.settingsReplaced && (summary.limitsReplaced ? '⚠️ ' + t('backup.limitsReplaced') : t('backup.settings')),
+    ].filter((line): line is string => Boolean(line))
+  }
+
+  const lines = plan ? summaryLines(plan) : []
+
+  return (
+    <div className="flex flex-col gap-2 px-4 py-3 rounded-2xl bg-slate-800/80 border border-slate-700">
+      <span className="font-bold">💾 {t('backup.section') || 'Backup do progresso'}</span>
+      <p className="text-sm text-gray-300">
+        {t('backup.hint') || 'Perfis, progresso, histórico, configurações e temas instalados, para levar a outro aparelho.'}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={handleExport} className="px-4 py-2 rounded-full bg-slate-700 hover:bg-slate-600 font-bold text-sm">
+          📤 {t('backup.export') || 'Exportar backup'}
+        </button>
+        <button
+          onClick={handleImport}
+          className="px-4 py-2 rounded-full bg-slate-700 hover:bg-slate-600 font-bold text-sm"
+        >
+          📥 {t('backup.import') || 'Importar backup'}
+        </button>
+        <input ref={inputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+
+      {showGate && <GrownUpGate onUnlock={handleUnlock} onCancel={() => setShowGate(false)} />}
+
+      {backup && (
+        <div className="flex flex-col gap-2 mt-2 p-3 rounded-xl bg-slate-900/60">
+          <div className="flex flex-wrap gap-2">
+            {(['merge', 'overwrite'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setStrategy(option)}
+                className={`px-3 py-1.5 rounded-full text-sm font-bold ${strategy === option ? 'bg-purple-600' : 'bg-slate-700 hover:bg-slate-600'}`}
+                aria-pressed={strategy === option}
+              >
+                {option === 'merge'
+                  ? t('backup.merge') || 'Juntar com este aparelho'
+                  : t('backup.overwrite') || 'Substituir tudo'}
+              </button>
+            ))}
+          </div>
+          {strategy === 'overwrite' && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={replaceLimits}
+                onChange={(event) => setReplaceLimits(event.target.checked)}
+                className="w-5 h-5 accent-purple-500"
+              />
+              {t('backup.replaceLimits') || 'Usar também os limites de tempo do backup'}
+            </label>
+          )}
+
+          <span className="text-sm font-bold">{t('backup.summary') || 'O que vai mudar:'}</span>
+          {plan && (
+            <ul className="text-sm text-gray-200 list-disc pl-5">
+              {lines.length > 0 ? (
+                lines.map((line) => <li key={line}>{line}</li>)
+              ) : (
+                <li>{t('backup.nothing') || 'Nada muda: este aparelho já tem tudo o que está no backup.'}</li>
+              )}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={cancel} className="px-4 py-2 rounded-full bg-slate-700 hover:bg-slate-600 font-bold text-sm">
+              {t('backup.cancel') || 'Cancelar'}
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!plan}
+              className="px-4 py-2 rounded-full bg-gradient-to-r from-purple-600 to-pink-600 font-bold text-sm disabled:opacity-50"
+            >
+              ✅ {t('backup.apply') || 'Importar'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {messages.map((message) => (
+        <p key={message} className="text-sm font-semibold">
+          {message}
+        </p>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import { motion } from 'framer-motion'
+
+interface BarChartProps {
+  bars: { label: string; value: number }[]
+  /** Texto mostrado em cima de cada barra */
+  formatValue?: (value: number) => string
+  /** Classe de cor das barras (Tailwind) */
+  barClassName?: string
+}
+
+/**
+ * Gráfico de barras simples, sem biblioteca de gráficos
+ */
+export default function BarChart({ bars, formatValue = String, barClassName = 'bg-purple-500' }: BarChartProps) {
+  const max = Math.max(1, ...bars.map((bar) => bar.value))
+
+  return (
+    <div className="flex items-end gap-1 sm:gap-2 h-32">
+      {bars.map((bar, index) => (
+        <div key={bar.label} className="flex-1 h-full flex flex-col items-center justify-end gap-1 min-w-0">
+          <span className="text-[10px] sm:text-xs text-gray-300">{bar.value > 0 ? formatValue(bar.value) : ''}</span>
+          <div className="flex-1 w-full flex items-end">
+            <motion.div
+              className={`w-full rounded-t-md ${barClassName}`}
+              initial={{ height: 0 }}
+              animate={{ height: `${(bar.value / max) * 100}%` }}
+              transition={{ delay: index * 0.03 }}
+              style={{ minHeight: bar.value > 0 ? 2 : 0 }}
+            />
+          </div>
+          <span className="text-[10px] sm:text-xs text-gray-400 truncate max-w-full">{bar.label}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
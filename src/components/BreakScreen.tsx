@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { motion } from 'framer-motion'
+import { getSpeechLang } from '../i18n/languages'
+import { speak } from '../utils/speak'
+import { useScreenTime, unlockScreenTime } from '../utils/screenTime'
+import GrownUpGate from './GrownUpGate'
+
+/**
+ * Tela de pausa quando o tempo de tela acaba
+ * Fica por cima de tudo até um adulto liberar (ou até o dia seguinte)
+ */
+export default function BreakScreen() {
+  const { t, i18n } = useTranslation()
+  const { locked } = useScreenTime()
+  const [showGate, setShowGate] = useState(false)
+
+  const message =
+    locked === 'daily'
+      ? t('break.daily') || 'O tempo de hoje acabou. Até amanhã!'
+      : t('break.session') || 'Hora de uma pausa! Vamos descansar um pouco.'
+
+  useEffect(() => {
+    if (!locked) return
+    setShowGate(false)
+    speak(message, getSpeechLang(i18n.language))
+  }, [locked])
+
+  if (!locked) return null
+
+  return (
+    <div className="fixed inset-0 z-[9500] overflow-auto bg-gradient-to-br from-indigo-900/95 to-slate-900/95 text-white">
+      <div className="min-h-full flex flex-col items-center justify-center gap-6 p-6 text-center">
+        {showGate ? (
+          <GrownUpGate
+            onUnlock={() => {
+              setShowGate(false)
+              unlockScreenTime()
+            }}
+            onCancel={() => setShowGate(false)}
+          />
+        ) : (
+          <>
+            {/* Mascote dormindo */}
+            <motion.div
+              className="relative text-8xl md:text-9xl"
+              animate={{ y: [0, -8, 0], rotate: [0, -3, 3, 0] }}
+              transition={{ duration: 3, repeat: Infinity, ease: 'easeInOut' }}
+            >
+              🦉
+              <motion.span
+                className="absolute -top-4 -right-8 text-4xl"
+                animate={{ opacity: [0, 1, 0], y: [0, -20] }}
+                transition={{ duration: 2, repeat: Infinity }}
+              >
+                💤
+              </motion.span>
+            </motion.div>
+
+            <motion.button
+              onClick={() => speak(message, getSpeechLang(i18n.language))}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="max-w-md text-2xl md:text-4xl font-bold"
+            >
+              {message}
+            </motion.button>
+
+            <button
+              onClick={() => setShowGate(true)}
+              className="px-5 py-2 rounded-full bg-white/10 hover:bg-white/20 text-sm font-bold"
+            >
+              🔒 {t('break.grownUp') || 'Sou adulto'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
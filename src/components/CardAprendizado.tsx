@@ -3,92 +3,124 @@ import { useTranslation } from 'react-i18next'
 import { speak } from '../utils/speak'
 import { GameButton } from './GameButton'
 import { motion } from 'framer-motion'
+import { getItemText, getAudioKey, type LearningItem, type ColorItem } from '../content'
+import { getSpeechLang } from '../i18n/languages'
+import { getIconUrl } from '../utils/icons'
+import { useLongPress } from '../utils/longPress'
+import { useRecordingIds, hasRecording } from '../utils/recordings'
+import { emitGameEvent } from '../utils/gameEvents'
+import RecordingDialog from './RecordingDialog'
 
-type Item = { id: string; pt: string; en: string; es?: string; icon: string; color?: string }
+const isColorItem = (item: LearningItem): item is ColorItem => 'color' in item
 
-const getLanguageCode = (lang: string): string => {
-  const langMap: { [key: string]: string } = {
-    pt: 'pt-BR',
-    en: 'en-US',
-    es: 'es-ES',
-    fr: 'fr-FR',
-    de: 'de-DE',
-    it: 'it-IT',
-    ja: 'ja-JP',
-    zh: 'zh-CN',
-  }
-  return langMap[lang] || 'en-US'
+interface CardAprendizadoProps {
+  item: LearningItem | ColorItem
+  /** Tema do item, usado para achar o áudio gravado */
+  packId: string
 }
 
-export default function CardAprendizado({ item }: { item: Item }) {
+/**
+ * Card de aprendizado: toque fala o nome do item
+ * Toque longo abre a gravação da voz dos pais para o item
+ */
+export default function CardAprendizado({ item, packId }: CardAprendizadoProps) {
   const { i18n } = useTranslation()
   const [isPlaying, setIsPlaying] = useState(false)
-  const langCode = getLanguageCode(i18n.language)
-  const text = (item as any)[i18n.language] ?? item.pt
-  const iconUrl = `https://cdn.jsdelivr.net/npm/openmoji@15.0.0/color/svg/${item.icon}.svg`
+  const [isRecordingOpen, setIsRecordingOpen] = useState(false)
+  const longPress = useLongPress(() => setIsRecordingOpen(true))
+  useRecordingIds()
+  const langCode = getSpeechLang(i18n.language)
+  const text = getItemText(item, i18n.language)
+  const iconUrl = getIconUrl(item.icon)
+  const audioKey = getAudioKey(packId, item.id)
 
   const handleClick = () => {
     setIsPlaying(true)
-    speak(text, langCode)
-    setTimeout(() => setIsPlaying(false), 1000)
+    speak(text, langCode, audioKey).then(() => setIsPlaying(false))
+    emitGameEvent({ type: 'item-heard', source: packId, itemId: item.id })
   }
 
-  // Se for cor (não tem ícone SVG), renderizar com quadrado colorido
-  if ((item as any).color) {
-    return (
-      <div className="relative h-full">
+  // Cores não têm ícone SVG: quadrado colorido; números e letras usam GameButton
+  const card = isColorItem(item) ? (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.8, y: 20 }}
+      animate={{ opacity: 1, scale: 1, y: 0 }}
+      whileHover={{ scale: 1.05 }}
+      whileTap={{ scale: 0.95 }}
+      onClick={handleClick}
+      className="flex flex-col items-center justify-center p-4 bg-white/10 rounded-2xl cursor-pointer transition-all duration-200 overflow-hidden group relative h-full"
+      transition={{ type: 'spring', stiffness: 300, damping: 25 }}
+    >
+      {/* Fundo animado */}
+      <motion.div
+        className="absolute inset-0 rounded-2xl"
+        initial={{ opacity: 0 }}
+        whileHover={{ opacity: 1 }}
+        transition={{ duration: 0.3 }}
+        style={{
+          background: 'radial-gradient(circle at center, rgba(255,255,255,0.1), transparent)',
+        }}
+      />
+
+      {/* Brilho no clique */}
+      <motion.div
+        className="absolute inset-0 rounded-2xl"
+        initial={{ opacity: 0 }}
+        animate={isPlaying ? { opacity: [0.5, 0] } : {}}
+        transition={{ duration: 0.6 }}
+        style={{
+          boxShadow: '0 0 30px rgba(255,255,255,0.3)',
+        }}
+      />
+
+      {/* Conteúdo */}
+      <div className="relative z-10 flex flex-col items-center justify-center gap-4 md:gap-6">
         <motion.div
-          initial={{ opacity: 0, scale: 0.8, y: 20 }}
-          animate={{ opacity: 1, scale: 1, y: 0 }}
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          onClick={handleClick}
-          className="flex flex-col items-center justify-center p-4 bg-white/10 rounded-2xl cursor-pointer transition-all duration-200 overflow-hidden group relative h-full"
-          transition={{ type: 'spring', stiffness: 300, damping: 25 }}
+          className="rounded-lg border-2 border-white/30 shadow-lg w-20 h-20 sm:w-28 sm:h-28 md:w-36 md:h-36"
+          style={{ backgroundColor: item.color }}
+          animate={isPlaying ? { rotate: [0, -5, 5, 0], scale: [1, 0.95, 1] } : {}}
+          transition={{ duration: 0.3 }}
+        />
+        <motion.p
+          className="text-sm sm:text-base md:text-lg font-bold text-white text-center px-2"
+          animate={isPlaying ? { scale: [1, 1.1, 1] } : {}}
+          transition={{ duration: 0.3 }}
         >
-          {/* Fundo animado */}
-          <motion.div
-            className="absolute inset-0 rounded-2xl"
-            initial={{ opacity: 0 }}
-            whileHover={{ opacity: 1 }}
-            transition={{ duration: 0.3 }}
-            style={{
-              background: 'radial-gradient(circle at center, rgba(255,255,255,0.1), transparent)',
-            }}
-          />
+          {text}
+        </motion.p>
+      </div>
+    </motion.div>
+  ) : (
+    <GameButton icon={iconUrl} label={text} onClick={handleClick} />
+  )
 
-          {/* Brilho no clique */}
-          <motion.div
-            className="absolute inset-0 rounded-2xl"
-            initial={{ opacity: 0 }}
-            animate={isPlaying ? { opacity: [0.5, 0] } : {}}
-            transition={{ duration: 0.6 }}
-            style={{
-              boxShadow: '0 0 30px rgba(255,255,255,0.3)',
-            }}
-          />
+  return (
+    <>
+      {/* O diálogo fica fora do card para não receber os eventos de toque longo */}
+      <div className="relative h-full select-none" {...longPress}>
+        {card}
 
-          {/* Conteúdo */}
-          <div className="relative z-10 flex flex-col items-center justify-center gap-4 md:gap-6">
-            <motion.div
-              className="rounded-lg border-2 border-white/30 shadow-lg w-20 h-20 sm:w-28 sm:h-28 md:w-36 md:h-36"
-              style={{ backgroundColor: (item as any).color }}
-              animate={isPlaying ? { rotate: [0, -5, 5, 0], scale: [1, 0.95, 1] } : {}}
-              transition={{ duration: 0.3 }}
-            />
-            <motion.p
-              className="text-sm sm:text-base md:text-lg font-bold text-white text-center px-2"
-              animate={isPlaying ? { scale: [1, 1.1, 1] } : {}}
-              transition={{ duration: 0.3 }}
-            >
-              {text}
-            </motion.p>
-          </div>
-        </motion.div>
+        {/* Item com voz gravada */}
+        {hasRecording(i18n.language, audioKey) && (
+          <span className="absolute top-1 right-1 text-sm pointer-events-none" aria-hidden>🎙️</span>
+        )}
       </div>
-    )
-  }
 
-  // Para números e letras com ícones SVG, usar GameButton
-  return <GameButton icon={iconUrl} label={text} onClick={handleClick} />
+      {isRecordingOpen && (
+        <RecordingDialog
+          label={text}
+          preview={
+            isColorItem(item) ? (
+              <div className="w-24 h-24 rounded-lg border-2 border-white/30" style={{ backgroundColor: item.color }} />
+            ) : (
+              <img src={iconUrl} alt={text} className="w-24 h-24" />
+            )
+          }
+          lang={i18n.language}
+          audioKey={audioKey}
+          onClose={() => setIsRecordingOpen(false)}
+        />
+      )}
+    </>
+  )
 }
@@ -0,0 +1,45 @@
+import { motion } from 'framer-motion'
+
+// Limite de partículas: a sequência fica salva no perfil e cresce sem fim, e tablets simples travam com milhares
+const MAX_PARTICLES = 200
+// Sequência a partir da qual o confete para de crescer
+const MAX_STREAK_BOOST = 5
+
+/**
+ * Componente de confete/partículas para acertos e conquistas
+ * Quem usa decide a quantidade (count) ou passa a sequência de acertos (streak) para o confete crescer com ela
+ */
+export default function Confetti({ count = 35, streak }: { count?: number; streak?: number }) {
+  const particles = Math.min(
+    streak === undefined ? count : Math.floor(count * 1.4 ** Math.min(streak, MAX_STREAK_BOOST)),
+    MAX_PARTICLES
+  )
+
+  return (
+    <div className="fixed inset-0 pointer-events-none overflow-hidden">
+      {[...Array(particles)].map((_, i) => (
+        <motion.div
+          key={i}
+          className="absolute w-2 h-2 rounded-full"
+          style={{
+            left: `${Math.random() * 100}%`,
+            top: '-10px',
+            backgroundColor: ['#FF6B6B', '#4ECDC4', '#FFE66D', '#95E1D3'][
+              Math.floor(Math.random() * 4)
+            ],
+          }}
+          initial={{ opacity: 1, y: 0 }}
+          animate={{
+            opacity: 0,
+            y: window.innerHeight + 100,
+            x: (Math.random() - 0.5) * 200,
+          }}
+          transition={{
+            duration: 2 + Math.random() * 1,
+            ease: 'easeOut',
+          }}
+        />
+      ))}
+    </div>
+  )
+}
@@ -4,7 +4,7 @@ import { vibrate, VIBRATION_PATTERNS } from '../utils/vibrate';
 
 interface GameButtonProps {
   /**
-   * URL da imagem (OpenMoji)
+   * URL da imagem (OpenMoji, resolvida com getIconUrl)
    */
   icon: string;
 
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { motion } from 'framer-motion'
+import { getSpeechLang } from '../i18n/languages'
+import { speak, cancelSpeech } from '../utils/speak'
+
+interface GrownUpGateProps {
+  onUnlock: () => void
+  onCancel?: () => void
+}
+
+const randomFactor = () => 3 + Math.floor(Math.random() * 7)
+
+/**
+ * Pergunta de adulto (uma multiplicação sorteada e falada) antes de áreas só para os pais
+ */
+export default function GrownUpGate({ onUnlock, onCancel }: GrownUpGateProps) {
+  const { t, i18n } = useTranslation()
+  const [factors, setFactors] = useState(() => [randomFactor(), randomFactor()])
+  const [answer, setAnswer] = useState('')
+  const [isWrong, setIsWrong] = useState(false)
+
+  const question = t('gate.question', { a: factors[0], b: factors[1] })
+
+  useEffect(() => {
+    speak(question, getSpeechLang(i18n.language))
+  }, [question])
+
+  useEffect(() => () => {
+    cancelSpeech()
+  }, [])
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (Number(answer) === factors[0] * factors[1]) {
+      onUnlock()
+      return
+    }
+    // Errou: outra conta, para não dar para chutar
+    setIsWrong(true)
+    setAnswer('')
+    setFactors([randomFactor(), randomFactor()])
+  }
+
+  return (
+    <motion.form
+      onSubmit={handleSubmit}
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="w-full max-w-sm mx-auto flex flex-col gap-4 px-6 py-5 rounded-3xl bg-slate-800/90 border border-slate-700 text-center"
+    >
+      <span className="text-5xl">🔒</span>
+      <p className="font-bold text-lg">{t('gate.title') || 'Só para adultos'}</p>
+      <button
+        type="button"
+        onClick={() => speak(question, getSpeechLang(i18n.language))}
+        className="text-2xl font-bold"
+      >
+        🔊 {question}
+      </button>
+      <input
+        value={answer}
+        onChange={(event) => setAnswer(event.target.value.replace(/\D/g, ''))}
+        inputMode="numeric"
+        autoFocus
+        aria-label={question}
+        className="px-4 py-2 rounded-xl bg-slate-700 text-white text-2xl font-bold text-center"
+      />
+      {isWrong && <p className="text-sm font-semibold text-red-300">{t('gate.wrong') || 'Resposta errada, tente esta outra.'}</p>}
+      <div className="flex justify-center gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-5 py-2 rounded-full bg-slate-700 hover:bg-slate-600 font-bold">
+            {t('common.back') || 'Voltar'}
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!answer}
+          className="px-5 py-2 rounded-full bg-gradient-to-r from-purple-600 to-pink-600 font-bold disabled:opacity-50"
+        >
+          {t('gate.confirm') || 'Confirmar'}
+        </button>
+      </div>
+    </motion.form>
+  )
+}
@@ -1,8 +1,11 @@
-import { useState, useRef, useEffect } from 'react'
-import { Link, useLocation } from 'react-router-dom'
+import { useState, useRef, useEffect, useSyncExternalStore } from 'react'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useTranslation } from 'react-i18next'
 import logoHorizontal from '../assets/logo-horizontal.png'
+import { getWordsForLanguage, getItemText } from '../content'
+import { getCustomPacks, subscribeCustomPacks } from '../content/customPacks'
+import { useActiveProfile, requestProfilePicker } from '../utils/profiles'
 
 interface Language {
   code: string
@@ -42,6 +45,9 @@ const Navigation = () => {
   const hamburgerRef = useRef<HTMLButtonElement>(null)
   const { t, i18n } = useTranslation()
   const location = useLocation()
+  const navigate = useNavigate()
+  const activeProfile = useActiveProfile()
+  const customPacks = useSyncExternalStore(subscribeCustomPacks, getCustomPacks)
 
   const currentLanguage = languages.find((lang) => lang.code === i18n.language) || languages[0]
 
@@ -53,6 +59,8 @@ const Navigation = () => {
         { path: '/colors', label: t('menu.colors') || 'Cores' },
         { path: '/letters', label: t('menu.letters') || 'Letras' },
         { path: '/numbers', label: t('menu.numbers') || 'Números' },
+        ...customPacks.map((pack) => ({ path: `/topics/${pack.id}`, label: getItemText(pack.title, i18n.language) })),
+        { path: '/topics', label: t('menu.topics') || 'Mais temas' },
       ]
     },
     {
@@ -60,6 +68,15 @@ const Navigation = () => {
       icon: '🎮',
       links: [
         { path: '/colors-quiz', label: t('menu.colorsQuiz') || 'Jogo de Cores' },
+        { path: '/numbers-quiz', label: t('menu.numbersQuiz') || 'Jogo dos Números' },
+        { path: '/letters-quiz', label: t('menu.lettersQuiz') || 'Jogo das Letras' },
+        { path: '/memory', label: t('menu.memory') || 'Jogo da Memória' },
+        { path: '/tracing', label: t('menu.tracing') || 'Traçar letras e números' },
+        { path: '/color-mixing', label: t('menu.colorMixing') || 'Mistura de Cores' },
+        { path: '/math', label: t('menu.math') || 'Matemática' },
+        ...(getWordsForLanguage(i18n.language).length > 0
+          ? [{ path: '/syllable-game', label: t('menu.syllableGame') || 'Jogo de Sílabas' }]
+          : []),
       ]
     }
   ]
@@ -204,6 +221,42 @@ const Navigation = () => {
 
         {/* Right side controls */}
         <div className="flex items-center gap-2 md:gap-4">
+          {/* Perfil ativo: toque para trocar de criança */}
+          <motion.button
+            onClick={() => {
+              requestProfilePicker()
+              navigate('/')
+            }}
+            title={activeProfile?.name ?? (t('profiles.guest') || 'Jogar sem perfil')}
+            aria-label={t('profiles.switch') || 'Trocar criança'}
+            className="flex items-center gap-1.5 px-2 py-1.5 rounded-lg hover:bg-slate-700 text-white font-semibold transition-colors"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <span className="text-lg">{activeProfile?.avatar ?? '👤'}</span>
+            {activeProfile && <span className="text-sm hidden sm:inline max-w-[6rem] truncate">{activeProfile.name}</span>}
+          </motion.button>
+
+          {/* Sticker book */}
+          <Link
+            to="/stickers"
+            title={t('menu.stickers') || 'Álbum de figurinhas'}
+            aria-label={t('menu.stickers') || 'Álbum de figurinhas'}
+            className={`px-2 py-1.5 rounded-lg text-lg transition-colors ${isActive('/stickers') ? 'bg-slate-700' : 'hover:bg-slate-700'}`}
+          >
+            📒
+          </Link>
+
+          {/* Settings */}
+          <Link
+            to="/settings"
+            title={t('menu.settings') || 'Configurações'}
+            aria-label={t('menu.settings') || 'Configurações'}
+            className={`px-2 py-1.5 rounded-lg text-lg transition-colors ${isActive('/settings') ? 'bg-slate-700' : 'hover:bg-slate-700'}`}
+          >
+            ⚙️
+          </Link>
+
           {/* Language Selector */}
           <div ref={languageRef} className="relative">
             <motion.button
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useVoices, getVoicesForLanguage } from '../utils/speak'
+import { getSpeechLang } from '../i18n/languages'
+import { hasFallbackAudio } from '../utils/audioFallback'
+
+/**
+ * Aviso quando o dispositivo não tem voz instalada para o idioma atual
+ * Só aparece depois que o navegador informou as vozes, e não aparece se o idioma tem áudios gravados
+ */
+export default function NoVoiceNotice({ className = '' }: { className?: string }) {
+  const { t, i18n } = useTranslation()
+  const { voices, loaded } = useVoices()
+  const [hasAudio, setHasAudio] = useState(false)
+
+  useEffect(() => {
+    let active = true
+    hasFallbackAudio(i18n.language).then((result) => active && setHasAudio(result))
+    return () => {
+      active = false
+    }
+  }, [i18n.language])
+
+  if (!loaded || hasAudio || getVoicesForLanguage(getSpeechLang(i18n.language), voices).length > 0) return null
+
+  return (
+    <p className={`px-4 py-2 rounded-2xl bg-amber-500/90 text-sm font-semibold text-center ${className}`}>
+      🔇 {t('settings.noVoice') || 'Nenhuma voz instalada para este idioma'}
+    </p>
+  )
+}
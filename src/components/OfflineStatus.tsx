@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useRegisterSW } from 'virtual:pwa-register/react'
+
+/**
+ * Avisos do service worker
+ * - "Pronto para usar offline" quando o cache termina de ser preenchido
+ * - Nova versão disponível, com botão para atualizar
+ * - Indicador de sem conexão
+ */
+export default function OfflineStatus() {
+  const { t } = useTranslation()
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine)
+  const {
+    offlineReady: [offlineReady, setOfflineReady],
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisterError(error) {
+      console.warn('Erro ao registrar service worker:', error)
+    },
+  })
+
+  // Acompanhar conexão
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true)
+    const handleOffline = () => setIsOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [])
+
+  // Esconder o aviso de offline pronto após alguns segundos
+  useEffect(() => {
+    if (!offlineReady) return
+    const timer = setTimeout(() => setOfflineReady(false), 5000)
+    return () => clearTimeout(timer)
+  }, [offlineReady])
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[9998] flex flex-col items-center gap-2 pointer-events-none">
+      <AnimatePresence>
+        {!isOnline && (
+          <motion.div
+            key="offline"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="px-4 py-2 rounded-full bg-slate-800/90 border border-slate-600 text-sm font-semibold shadow-lg"
+          >
+            ✈️ {t('offline.offlineMode')}
+          </motion.div>
+        )}
+
+        {offlineReady && (
+          <motion.button
+            key="ready"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            onClick={() => setOfflineReady(false)}
+            className="px-4 py-2 rounded-full bg-green-600/90 text-sm font-semibold shadow-lg pointer-events-auto"
+          >
+            ✅ {t('offline.ready')}
+          </motion.button>
+        )}
+
+        {needRefresh && (
+          <motion.div
+            key="update"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="flex items-center gap-3 px-4 py-2 rounded-2xl bg-gradient-to-r from-purple-600 to-pink-600 text-sm font-semibold shadow-xl pointer-events-auto"
+          >
+            <span>✨ {t('offline.updateAvailable')}</span>
+            <button
+              onClick={() => updateServiceWorker(true)}
+              className="px-3 py-1 rounded-full bg-white text-purple-700 font-bold"
+            >
+              {t('offline.update')}
+            </button>
+            <button onClick={() => setNeedRefresh(false)} className="px-2 py-1 rounded-full hover:bg-white/20">
+              {t('offline.later')}
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
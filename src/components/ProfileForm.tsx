@@ -0,0 +1,107 @@
+import React, { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { motion } from 'framer-motion'
+import { SUPPORTED_LANGUAGES, LANGUAGE_LABELS, toLanguageCode } from '../i18n/languages'
+import { AGE_BANDS, PROFILE_AVATARS, type ProfileInput } from '../utils/profiles'
+
+interface ProfileFormProps {
+  /** Valores iniciais ao editar um perfil */
+  initial?: ProfileInput
+  onSubmit: (input: ProfileInput) => void
+  onCancel: () => void
+}
+
+/**
+ * Formulário de perfil: nome, avatar, idioma preferido e faixa de idade
+ */
+export default function ProfileForm({ initial, onSubmit, onCancel }: ProfileFormProps) {
+  const { t, i18n } = useTranslation()
+  const [name, setName] = useState(initial?.name ?? '')
+  const [avatar, setAvatar] = useState(initial?.avatar ?? PROFILE_AVATARS[0])
+  const [language, setLanguage] = useState(initial?.language ?? toLanguageCode(i18n.language))
+  const [ageBand, setAgeBand] = useState(initial?.ageBand ?? AGE_BANDS[1])
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!name.trim()) return
+    onSubmit({ name: name.trim(), avatar, language, ageBand })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-md flex flex-col gap-4">
+      <label className="flex flex-col gap-1 font-bold">
+        {t('profiles.name') || 'Nome'}
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={20}
+          autoFocus
+          className="px-4 py-2 rounded-xl bg-slate-700 text-white text-lg font-semibold"
+        />
+      </label>
+
+      <div className="flex flex-col gap-1">
+        <span className="font-bold">{t('profiles.avatar') || 'Avatar'}</span>
+        <div className="grid grid-cols-6 gap-2">
+          {PROFILE_AVATARS.map((emoji) => (
+            <motion.button
+              key={emoji}
+              type="button"
+              onClick={() => setAvatar(emoji)}
+              className={`text-3xl p-1 rounded-xl ${avatar === emoji ? 'bg-purple-600 ring-2 ring-white' : 'bg-slate-700'}`}
+              whileTap={{ scale: 0.9 }}
+              aria-pressed={avatar === emoji}
+            >
+              {emoji}
+            </motion.button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex flex-col gap-1 font-bold">
+        {t('profiles.language') || 'Idioma'}
+        <select
+          value={language}
+          onChange={(event) => setLanguage(toLanguageCode(event.target.value))}
+          className="px-4 py-2 rounded-xl bg-slate-700 text-white font-semibold"
+        >
+          {SUPPORTED_LANGUAGES.map((code) => (
+            <option key={code} value={code}>
+              {LANGUAGE_LABELS[code].flag} {LANGUAGE_LABELS[code].name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex flex-col gap-1">
+        <span className="font-bold">{t('profiles.age') || 'Idade'}</span>
+        <div className="grid grid-cols-4 gap-2">
+          {AGE_BANDS.map((band) => (
+            <button
+              key={band}
+              type="button"
+              onClick={() => setAgeBand(band)}
+              className={`py-2 rounded-xl font-bold ${ageBand === band ? 'bg-purple-600 ring-2 ring-white' : 'bg-slate-700'}`}
+              aria-pressed={ageBand === band}
+            >
+              {band}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-5 py-2 rounded-full bg-slate-700 hover:bg-slate-600 font-bold">
+          {t('profiles.cancel') || 'Cancelar'}
+        </button>
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="px-5 py-2 rounded-full bg-gradient-to-r from-purple-600 to-pink-600 font-bold disabled:opacity-50"
+        >
+          ✅ {t('profiles.save') || 'Salvar'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { motion } from 'framer-motion'
+import ProfileForm from './ProfileForm'
+import {
+  useProfiles,
+  createProfile,
+  updateProfile,
+  deleteProfile,
+  selectProfile,
+  type Profile,
+  type ProfileInput,
+} from '../utils/profiles'
+
+type Mode = { type: 'pick' } | { type: 'create' } | { type: 'edit'; profile: Profile }
+
+/**
+ * "Quem vai jogar?": escolha, criação e edição dos perfis das crianças
+ * Aparece na tela inicial ao abrir o app
+ */
+export default function ProfilePicker() {
+  const { t } = useTranslation()
+  const { profiles, activeId } = useProfiles()
+  const [mode, setMode] = useState<Mode>({ type: profiles.length === 0 ? 'create' : 'pick' })
+  const [isManaging, setIsManaging] = useState(false)
+
+  const handleCreate = async (input: ProfileInput) => {
+    const profile = await createProfile(input)
+    selectProfile(profile.id)
+  }
+
+  const handleEdit = async (profile: Profile, input: ProfileInput) => {
+    await updateProfile(profile.id, input)
+    setMode({ type: 'pick' })
+  }
+
+  const handleDelete = async (profile: Profile) => {
+    if (!window.confirm(t('profiles.confirmDelete', { name: profile.name }))) return
+    await deleteProfile(profile.id)
+  }
+
+  const cancelForm = () => {
+    // Sem nenhum perfil, cancelar é jogar como convidado
+    if (profiles.length === 0) selectProfile(null)
+    else setMode({ type: 'pick' })
+  }
+
+  return (
+    <div className="fixed inset-0 z-[9000] overflow-auto bg-gradient-to-br from-slate-900/95 to-purple-900/95 text-white">
+      <div className="min-h-full flex flex-col items-center justify-center gap-6 p-6">
+        <motion.h1
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-3xl md:text-5xl font-bold text-center"
+        >
+          {mode.type === 'pick'
+            ? t('profiles.whoIsPlaying') || 'Quem vai jogar?'
+            : mode.type === 'create'
+              ? t('profiles.newProfile') || 'Nova criança'
+              : t('profiles.editProfile') || 'Editar perfil'}
+        </motion.h1>
+
+        {mode.type === 'pick' && (
+          <>
+            <div className="flex flex-wrap justify-center gap-4 md:gap-6 max-w-3xl">
+              {profiles.map((profile, index) => (
+                <motion.div
+                  key={profile.id}
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ delay: index * 0.05, type: 'spring', stiffness: 200 }}
+                  className="relative"
+                >
+                  <motion.button
+                    onClick={() => (isManaging ? setMode({ type: 'edit', profile }) : selectProfile(profile.id))}
+                    className={`w-28 h-32 md:w-36 md:h-40 flex flex-col items-center justify-center gap-2 rounded-3xl bg-white/10 hover:bg-white/20 border-4 ${profile.id === activeId ? 'border-yellow-300' : 'border-transparent'}`}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    <span className="text-5xl md:text-6xl">{profile.avatar}</span>
+                    <span className="font-bold text-lg truncate max-w-full px-2">{profile.name}</span>
+                  </motion.button>
+                  {isManaging && (
+                    <button
+                      onClick={() => handleDelete(profile)}
+                      className="absolute -top-2 -right-2 w-9 h-9 rounded-full bg-red-600 shadow-lg"
+                      aria-label={t('profiles.delete') || 'Apagar'}
+                    >
+                      🗑️
+                    </button>
+                  )}
+                </motion.div>
+              ))}
+
+              <motion.button
+                onClick={() => setMode({ type: 'create' })}
+                className="w-28 h-32 md:w-36 md:h-40 flex flex-col items-center justify-center gap-2 rounded-3xl border-4 border-dashed border-white/40 hover:bg-white/10"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <span className="text-5xl">➕</span>
+                <span className="font-bold">{t('profiles.add') || 'Adicionar'}</span>
+              </motion.button>
+            </div>
+
+            <div className="flex flex-wrap justify-center gap-3">
+              <button onClick={() => selectProfile(null)} className="px-5 py-2 rounded-full bg-white/10 hover:bg-white/20 font-bold">
+                👤 {t('profiles.guest') || 'Jogar sem perfil'}
+              </button>
+              {profiles.length > 0 && (
+                <button
+                  onClick={() => setIsManaging(!isManaging)}
+                  className={`px-5 py-2 rounded-full font-bold ${isManaging ? 'bg-purple-600' : 'bg-white/10 hover:bg-white/20'}`}
+                >
+                  ✏️ {isManaging ? t('profiles.done') || 'Pronto' : t('profiles.manage') || 'Editar perfis'}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        {mode.type === 'create' && <ProfileForm onSubmit={handleCreate} onCancel={cancelForm} />}
+
+        {mode.type === 'edit' && (
+          <ProfileForm initial={mode.profile} onSubmit={(input) => handleEdit(mode.profile, input)} onCancel={cancelForm} />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { useTranslation } from 'react-i18next'
+import { motion } from 'framer-motion'
+import type { QuizFeedback as Feedback } from '../utils/quiz'
+import Confetti from './Confetti'
+
+interface QuizFeedbackProps {
+  feedback: Feedback
+  /** Confete do acerto, que cresce com a sequência */
+  showParticles: boolean
+  streak: number
+}
+
+/**
+ * Faixa de acerto/erro dos quizzes, com confete no acerto
+ */
+export default function QuizFeedback({ feedback, showParticles, streak }: QuizFeedbackProps) {
+  const { t } = useTranslation()
+
+  return (
+    <>
+      {feedback && (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.5 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className={`text-center py-2 sm:py-4 px-4 sm:px-8 rounded-full text-sm sm:text-2xl font-bold ${
+            feedback === 'correct' ? 'bg-green-500/80 text-white' : 'bg-red-500/80 text-white'
+          }`}
+        >
+          {feedback === 'correct' ? (
+            <span>🎉 {t('quiz.correct') || 'Parabéns!'} {t('quiz.points', { count: 10 })}</span>
+          ) : (
+            <span>😅 {t('quiz.incorrect') || 'Errou!'}</span>
+          )}
+        </motion.div>
+      )}
+
+      {showParticles && feedback === 'correct' && <Confetti streak={streak} />}
+    </>
+  )
+}
@@ -0,0 +1,58 @@
+import type React from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { motion } from 'framer-motion'
+
+interface QuizHeaderProps {
+  score: number
+  streak: number
+  /** Placares extras entre os pontos e a sequência (ex: nível) */
+  children?: React.ReactNode
+}
+
+/**
+ * Cabeçalho dos quizzes: voltar ao menu, pontos e sequência de acertos
+ */
+export default function QuizHeader({ score, streak, children }: QuizHeaderProps) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+
+  return (
+    <div className="absolute top-0 left-0 right-0 px-3 sm:px-6 py-3 sm:py-4 flex items-center justify-between z-10 w-full bg-gradient-to-b from-black/10 to-transparent">
+      {/* Voltar ao menu */}
+      <motion.button
+        onClick={() => navigate('/')}
+        className="px-3 sm:px-6 py-1 sm:py-2 bg-white/20 rounded-full hover:bg-white/30 transition-all text-xs sm:text-lg font-bold"
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+      >
+        ← {t('common.back') || 'Voltar'}
+      </motion.button>
+
+      {/* Placar */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex gap-4 sm:gap-8 text-center"
+      >
+        <div>
+          <p className="text-xs sm:text-sm opacity-75">{t('quiz.score') || 'Pontos'}</p>
+          <p className="text-2xl sm:text-4xl font-bold">{score}</p>
+        </div>
+
+        {children}
+
+        <div>
+          <p className="text-xs sm:text-sm opacity-75">{t('quiz.streak') || 'Sequência'}</p>
+          <motion.p
+            className="text-2xl sm:text-4xl font-bold text-yellow-300"
+            animate={streak > 0 ? { scale: [1, 1.1, 1] } : {}}
+            transition={{ duration: 0.3 }}
+          >
+            {streak}
+          </motion.p>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import type React from 'react'
+import { motion } from 'framer-motion'
+import type { QuizFeedback } from '../utils/quiz'
+
+interface QuizOptionsProps<T> {
+  options: T[]
+  getKey: (option: T) => string | number
+  /** Texto do botão (numeral, letra...) */
+  getLabel: (option: T) => React.ReactNode
+  isTarget: (option: T) => boolean
+  feedback: QuizFeedback
+  disabled: boolean
+  onChoose: (option: T) => void
+  className?: string
+}
+
+/**
+ * Grade de respostas dos quizzes com numerais e letras
+ * A certa cresce e fica verde no acerto; todas tremem no erro
+ */
+export default function QuizOptions<T>({
+  options,
+  getKey,
+  getLabel,
+  isTarget,
+  feedback,
+  disabled,
+  onChoose,
+  className = 'mb-3 sm:mb-6',
+}: QuizOptionsProps<T>) {
+  return (
+    <div className={`grid grid-cols-4 gap-3 sm:gap-6 ${className}`}>
+      {options.map((option, index) => {
+        const isCorrectAnswer = feedback === 'correct' && isTarget(option)
+        return (
+          <motion.button
+            key={getKey(option)}
+            onClick={() => onChoose(option)}
+            disabled={disabled}
+            initial={{ opacity: 0, scale: 0.8 }}
+            animate={{
+              opacity: feedback === 'incorrect' ? 0.5 : 1,
+              scale: isCorrectAnswer ? [1, 1.1, 1] : 1,
+              x: feedback === 'incorrect' ? [0, -5, 5, 0] : 0,
+              rotate: isCorrectAnswer ? [0, -5, 5, 0] : 0,
+            }}
+            transition={{ delay: index * 0.1, duration: 0.4 }}
+            className={`w-16 h-16 sm:w-28 sm:h-28 rounded-2xl border-4 bg-white/20 text-3xl sm:text-6xl font-bold ${
+              isCorrectAnswer ? 'border-yellow-300 bg-green-500/60' : 'border-white/30'
+            } ${disabled ? 'cursor-not-allowed' : 'cursor-pointer hover:bg-white/30'}`}
+            whileHover={!disabled ? { scale: 1.08 } : {}}
+            whileTap={!disabled ? { scale: 0.95 } : {}}
+          >
+            {getLabel(option)}
+          </motion.button>
+        )
+      })}
+    </div>
+  )
+}
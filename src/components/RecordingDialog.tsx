@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { motion } from 'framer-motion'
+import {
+  useRecordingIds,
+  hasRecording,
+  getRecording,
+  saveRecording,
+  deleteRecording,
+  startRecording,
+  isRecordingSupported,
+  MAX_RECORDING_MS,
+  type ActiveRecording,
+} from '../utils/recordings'
+import { playAudioFile, stopAudioFile } from '../utils/audioFallback'
+import { cancelSpeech } from '../utils/speak'
+import { getSettings } from '../utils/settings'
+
+interface RecordingDialogProps {
+  /** Nome do item no idioma atual */
+  label: string
+  /** Imagem do item (ícone ou cor) */
+  preview: React.ReactNode
+  lang: string
+  /** Chave do item (getAudioKey) */
+  audioKey: string
+  onClose: () => void
+}
+
+type Status = 'idle' | 'recording' | 'review' | 'error'
+
+/**
+ * Gravação da voz dos pais para um item
+ * Grava, deixa ouvir antes de salvar e permite apagar ou regravar
+ */
+export default function RecordingDialog({ label, preview, lang, audioKey, onClose }: RecordingDialogProps) {
+  const { t } = useTranslation()
+  useRecordingIds()
+  const supported = isRecordingSupported()
+  const [status, setStatus] = useState<Status>(supported ? 'idle' : 'error')
+  const [clip, setClip] = useState<Blob | null>(null)
+  const activeRef = useRef<ActiveRecording | null>(null)
+  const exists = hasRecording(lang, audioKey)
+
+  // Parar microfone e áudio ao fechar
+  useEffect(() => {
+    cancelSpeech()
+    return () => {
+      activeRef.current?.stop()
+      stopAudioFile()
+    }
+  }, [])
+
+  const play = async (blob: Blob | null) => {
+    if (!blob) return
+    const url = URL.createObjectURL(blob)
+    await playAudioFile(url, getSettings().speechVolume || 1)
+    URL.revokeObjectURL(url)
+  }
+
+  const handleRecord = async () => {
+    stopAudioFile()
+    try {
+      const active = await startRecording()
+      activeRef.current = active
+      setStatus('recording')
+      const blob = await active.result
+      activeRef.current = null
+      setClip(blob)
+      setStatus('review')
+      play(blob)
+    } catch (error) {
+      console.warn('Erro ao gravar:', error)
+      activeRef.current = null
+      setStatus('error')
+    }
+  }
+
+  const handleSave = async () => {
+    if (!clip) return
+    await saveRecording(lang, audioKey, clip)
+    onClose()
+  }
+
+  const handleDelete = async () => {
+    await deleteRecording(lang, audioKey)
+    setClip(null)
+    setStatus('idle')
+  }
+
+  const buttonClass = 'px-4 py-2 rounded-full font-bold'
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-sm flex flex-col items-center gap-4 p-6 rounded-3xl bg-slate-800 border border-slate-600 text-white shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold">🎙️ {t('recordings.title') || 'Gravar sua voz'}</h2>
+        {preview}
+        <p className="text-2xl font-bold">{label}</p>
+
+        {status === 'error' && (
+          <p className="px-4 py-2 rounded-2xl bg-red-500/80 text-sm text-center">
+            {supported
+              ? t('recordings.micError') || 'Não foi possível usar o microfone'
+              : t('recordings.unsupported') || 'Este navegador não permite gravar áudio'}
+          </p>
+        )}
+
+        {status === 'recording' && (
+          <div className="flex flex-col items-center gap-3">
+            <motion.div
+              className="w-16 h-16 rounded-full bg-red-500"
+              animate={{ scale: [1, 1.15, 1] }}
+              transition={{ duration: 1, repeat: Infinity }}
+            />
+            <p className="text-sm opacity-75">
+              {t('recordings.recording', { seconds: MAX_RECORDING_MS / 1000 }) || 'Gravando...'}
+            </p>
+            <button onClick={() => activeRef.current?.stop()} className={`${buttonClass} bg-red-600`}>
+              ⏹️ {t('recordings.stop') || 'Parar'}
+            </button>
+          </div>
+        )}
+
+        {status === 'review' && (
+          <div className="flex flex-wrap justify-center gap-2">
+            <button onClick={() => play(clip)} className={`${buttonClass} bg-slate-600`}>
+              ▶️ {t('recordings.play') || 'Ouvir'}
+            </button>
+            <button onClick={handleRecord} className={`${buttonClass} bg-slate-600`}>
+              🔁 {t('recordings.reRecord') || 'Gravar de novo'}
+            </button>
+            <button onClick={handleSave} className={`${buttonClass} bg-green-600`}>
+              ✅ {t('recordings.save') || 'Salvar'}
+            </button>
+          </div>
+        )}
+
+        {(status === 'idle' || (status === 'error' && supported)) && (
+          <div className="flex flex-wrap justify-center gap-2">
+            {exists && (
+              <>
+                <button onClick={async () => play(await getRecording(lang, audioKey))} className={`${buttonClass} bg-slate-600`}>
+                  ▶️ {t('recordings.play') || 'Ouvir'}
+                </button>
+                <button onClick={handleDelete} className={`${buttonClass} bg-slate-600`}>
+                  🗑️ {t('recordings.delete') || 'Apagar'}
+                </button>
+              </>
+            )}
+            <button onClick={handleRecord} className={`${buttonClass} bg-red-600`}>
+              🔴 {exists ? t('recordings.reRecord') || 'Gravar de novo' : t('recordings.record') || 'Gravar'}
+            </button>
+          </div>
+        )}
+
+        <button onClick={onClose} className="text-sm opacity-75 hover:opacity-100">
+          {t('recordings.close') || 'Fechar'}
+        </button>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import type { LanguageCode } from '../i18n/languages'
+
+/**
+ * Manifesto de áudios gravados (public/audio/manifest.json)
+ * Usados pela fala quando o dispositivo não tem voz para o idioma
+ * Caminhos dos arquivos relativos a public/audio (ex: 'ja/colors/red.mp3')
+ */
+export interface AudioManifest {
+  version: 1
+  languages: Partial<Record<LanguageCode, Record<string, string>>>
+}
+
+/**
+ * Origens de áudio: conteúdo embutido e frases fixas dos jogos
+ * Os nomes das origens de conteúdo são os mesmos ids dos temas embutidos
+ */
+export const AUDIO_SOURCES = ['letters', 'numbers', 'colors', 'words', 'phrases'] as const
+
+export type AudioSource = (typeof AUDIO_SOURCES)[number]
+
+/**
+ * Frases fixas faladas pelos jogos que não vêm dos arquivos de conteúdo
+ * Frases montadas com itens (ex: "mostre três", "dois mais três", "vermelho e amarelo fazem laranja")
+ * não têm áudio gravado e ficam só com a voz do dispositivo; os itens dentro delas têm
+ */
+export const AUDIO_PHRASES = ['correct', 'howMany', 'allPairsFound'] as const
+
+/**
+ * Chave de um áudio no manifesto (ex: 'colors:red', 'phrases:correct')
+ * Também aceita ids de temas carregados pelo usuário, que não têm áudio gravado
+ */
+export function getAudioKey(source: AudioSource | string, id: string): string {
+  return `${source}:${id}`
+}
@@ -0,0 +1,111 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { BUILT_IN_PACKS, isBuiltInPack } from './packs'
+import { validatePack, type ContentIssue } from './validate'
+import type { ContentPack } from './types'
+
+/**
+ * Pacotes de conteúdo instalados pelo usuário (carregados de arquivo JSON)
+ * Ficam salvos no localStorage para continuar disponíveis após recarregar
+ */
+
+const STORAGE_KEY = 'aprendeplay:packs'
+
+/**
+ * Erro lançado quando um pacote não passa na validação
+ */
+export class PackValidationError extends Error {
+  issues: ContentIssue[]
+
+  constructor(issues: ContentIssue[]) {
+    super(`Pacote inválido (${issues.length} problema(s))`)
+    this.name = 'PackValidationError'
+    this.issues = issues
+  }
+}
+
+const listeners = new Set<() => void>()
+
+function readStoredPacks(): ContentPack[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    if (!Array.isArray(stored)) return []
+    // Descartar pacotes que deixaram de ser válidos
+    return stored.filter((pack) => validatePack('localStorage', pack).length === 0)
+  } catch (error) {
+    console.warn('Erro ao ler pacotes instalados:', error)
+    return []
+  }
+}
+
+let customPacks: ContentPack[] = typeof localStorage === 'undefined' ? [] : readStoredPacks()
+
+function setCustomPacks(packs: ContentPack[]): void {
+  customPacks = packs
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(packs))
+  } catch (error) {
+    console.warn('Erro ao salvar pacotes instalados:', error)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+export function getCustomPacks(): ContentPack[] {
+  return customPacks
+}
+
+export function subscribeCustomPacks(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+/**
+ * Valida e instala um pacote. Um pacote com o mesmo id é substituído.
+ * @throws PackValidationError se o pacote for inválido
+ */
+export function installPack(data: unknown, source = 'pacote'): ContentPack {
+  const issues = validatePack(source, data)
+  const pack = data as ContentPack
+
+  if (issues.length === 0 && isBuiltInPack(pack.id)) {
+    issues.push({
+      source,
+      message: `o id "${pack.id}" pertence a um pacote embutido`,
+      code: 'builtInPackId',
+      params: { id: pack.id },
+    })
+  }
+  if (issues.length > 0) {
+    throw new PackValidationError(issues)
+  }
+
+  setCustomPacks([...customPacks.filter((p) => p.id !== pack.id), pack])
+  return pack
+}
+
+/**
+ * Lê um arquivo JSON escolhido pelo usuário e instala o pacote
+ */
+export async function installPackFromFile(file: File): Promise<ContentPack> {
+  let data: unknown
+  try {
+    data = JSON.parse(await file.text())
+  } catch (error) {
+    const message = (error as Error).message
+    throw new PackValidationError([
+      { source: file.name, message: `JSON inválido: ${message}`, code: 'invalidJson', params: { error: message } },
+    ])
+  }
+  return installPack(data, file.name)
+}
+
+export function removePack(id: string): void {
+  setCustomPacks(customPacks.filter((pack) => pack.id !== id))
+}
+
+/**
+ * Todos os pacotes disponíveis: embutidos primeiro, depois os instalados
+ */
+export function useContentPacks(): ContentPack[] {
+  const installed = useSyncExternalStore(subscribeCustomPacks, getCustomPacks)
+  return useMemo(() => [...BUILT_IN_PACKS, ...installed], [installed])
+}
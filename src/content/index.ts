@@ -0,0 +1,96 @@
+import lettersData from '../data/letters.json'
+import numbersData from '../data/numbers.json'
+import colorsData from '../data/colors.json'
+import wordsData from '../data/words.json'
+import achievementsData from './achievements.json'
+import { toLanguageCode, DEFAULT_LANGUAGE } from '../i18n/languages'
+import { validateItems, validateAchievements, type ContentIssue } from './validate'
+import type { AudioSource } from './audio'
+import type { LearningItem, ColorItem, WordItem, Translations, Achievement } from './types'
+
+export type {
+  LearningItem,
+  ColorItem,
+  WordItem,
+  Translations,
+  ContentKind,
+  ContentPack,
+  PackLayout,
+  Achievement,
+  AchievementCriteria,
+} from './types'
+export {
+  validateItems,
+  validatePack,
+  validateTranslationParity,
+  validateAudioManifest,
+  validateAchievements,
+  formatIssue,
+  localizeIssue,
+  type ContentIssue,
+} from './validate'
+export { getAudioKey, AUDIO_PHRASES, type AudioManifest, type AudioSource } from './audio'
+
+// Os JSON são tipados aqui: um item sem algum idioma já falha no type-check
+export const letters: LearningItem[] = lettersData
+export const numbers: LearningItem[] = numbersData
+export const colors: ColorItem[] = colorsData
+export const words: WordItem[] = wordsData
+// Condições das conquistas são uniões de tipos que o JSON não infere; validateAchievements confere o formato
+export const achievements = achievementsData as Achievement[]
+
+/**
+ * Texto do item no idioma atual, com fallback para o idioma de referência
+ */
+export function getItemText(item: Translations, lang: string): string {
+  return item[toLanguageCode(lang)] || item[DEFAULT_LANGUAGE]
+}
+
+/**
+ * Palavras que têm divisão em sílabas no idioma informado
+ */
+export function getWordsForLanguage(lang: string): WordItem[] {
+  const code = toLanguageCode(lang)
+  return words.filter((word) => word.syllables[code]?.length)
+}
+
+/**
+ * Letra de letters.json com que o texto do item começa no idioma informado
+ * Acentos são ignorados (ex: 'égua' → E); undefined em escritas sem letras latinas (japonês, chinês)
+ */
+export function getInitialLetter(item: Translations, lang: string): LearningItem | undefined {
+  const first = getItemText(item, lang).normalize('NFD').charAt(0).toUpperCase()
+  return letters.find((letter) => letter.id === first)
+}
+
+const ITEMS_BY_SOURCE: Partial<Record<AudioSource, LearningItem[]>> = { letters, numbers, colors, words }
+
+export const CONTENT_SOURCES = Object.keys(ITEMS_BY_SOURCE)
+
+/**
+ * Itens de uma origem de conteúdo embutido (ex: 'letters'); vazio para origens desconhecidas
+ */
+export function getSourceItems(source: string): LearningItem[] {
+  return ITEMS_BY_SOURCE[source as AudioSource] ?? []
+}
+
+/**
+ * Item a partir da chave de getAudioKey (ex: 'colors:red'), usada nos eventos de aprendizado
+ */
+export function getItemByKey(key: string): LearningItem | undefined {
+  const [source, id] = key.split(':')
+  return getSourceItems(source).find((item) => item.id === id)
+}
+
+/**
+ * Valida todo o conteúdo embutido no app
+ */
+export function validateBuiltInContent(): ContentIssue[] {
+  return [
+    ...validateItems('letters.json', letters),
+    ...validateItems('numbers.json', numbers),
+    ...validateItems('colors.json', colors, 'color'),
+    ...validateItems('words.json', words, 'word'),
+    ...validateAchievements('achievements.json', achievements, CONTENT_SOURCES),
+  ]
+}
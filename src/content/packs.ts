@@ -0,0 +1,34 @@
+import { letters, numbers, colors } from './index'
+import type { ContentPack } from './types'
+
+export const BUILT_IN_PACKS: ContentPack[] = [
+  {
+    id: 'colors',
+    title: { pt: 'Cores', en: 'Colors', es: 'Colores', fr: 'Couleurs', de: 'Farben', it: 'Colori', ja: '色', zh: '颜色' },
+    emoji: '🎨',
+    layout: 'large',
+    items: colors,
+    description: 'Aprenda cores interativamente com ' + colors.length + ' cores diferentes. Jogo educativo para crianças aprender sobre cores.',
+    keywords: 'cores, colors, educação infantil, aprender cores, kids learning colors, rainbow',
+  },
+  {
+    id: 'letters',
+    title: { pt: 'Letras', en: 'Letters', es: 'Letras', fr: 'Lettres', de: 'Buchstaben', it: 'Lettere', ja: '文字', zh: '字母' },
+    emoji: '🔤',
+    layout: 'compact',
+    items: letters,
+    description: 'Aprenda o alfabeto interativo em ' + letters.length + ' letras diferentes. Perfeito para crianças aprender as letras.',
+    keywords: 'alfabeto, letras, aprender letras, educação infantil, abc, abcedário',
+  },
+  {
+    id: 'numbers',
+    title: { pt: 'Números', en: 'Numbers', es: 'Números', fr: 'Chiffres', de: 'Zahlen', it: 'Numeri', ja: '数字', zh: '数字' },
+    emoji: '🔢',
+    layout: 'large',
+    items: numbers,
+    description: 'Aprenda números interativos de forma divertida. Perfeito para crianças aprender contagem e numeração.',
+    keywords: 'números, contagem, educação infantil, aprender números, kids learning numbers',
+  },
+]
+
+export const isBuiltInPack = (id: string) => BUILT_IN_PACKS.some((pack) => pack.id === id)
@@ -0,0 +1,136 @@
+/**
+ * Modelos de traçado das letras (maiúsculas e minúsculas) e dos algarismos
+ * Cada caractere é uma lista de traços na ordem em que se escreve; cada traço é uma linha
+ * de pontos no sentido do movimento, numa caixa de 0 a 100
+ *
+ * Linhas-guia: topo das maiúsculas e hastes em y=10, altura das minúsculas em y=40,
+ * linha de base em y=80 e descendentes (g, j, p, q, y) até y=98
+ */
+
+export type StrokePoint = [number, number]
+export type Stroke = StrokePoint[]
+
+export const GUIDE_LINES = { top: 10, middle: 40, baseline: 80, descender: 98 }
+
+const line = (x1: number, y1: number, x2: number, y2: number): Stroke => [
+  [x1, y1],
+  [x2, y2],
+]
+
+/**
+ * Arco de elipse; ângulos em graus com 0 à direita e 90 embaixo (coordenadas de tela)
+ * Ângulo final maior que o inicial = sentido horário na tela
+ */
+const arc = (cx: number, cy: number, rx: number, ry: number, from: number, to: number): Stroke => {
+  const steps = Math.max(2, Math.ceil(Math.abs(to - from) / 15))
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = ((from + ((to - from) * i) / steps) * Math.PI) / 180
+    return [Math.round((cx + rx * Math.cos(angle)) * 10) / 10, Math.round((cy + ry * Math.sin(angle)) * 10) / 10]
+  })
+}
+
+// Partes emendadas em um só traço (sem levantar o dedo)
+const join = (...parts: Stroke[]): Stroke => parts.flat()
+
+// Pingo do i e do j: um toque
+const dot = (x: number, y: number): Stroke => line(x, y, x, y + 1)
+
+const UPPERCASE: Record<string, Stroke[]> = {
+  A: [line(50, 10, 20, 80), line(50, 10, 80, 80), line(32, 55, 68, 55)],
+  B: [
+    line(25, 10, 25, 80),
+    join(line(25, 10, 55, 10), arc(55, 27.5, 17.5, 17.5, -90, 90), line(55, 45, 25, 45)),
+    join(line(25, 45, 58, 45), arc(58, 62.5, 17.5, 17.5, -90, 90), line(58, 80, 25, 80)),
+  ],
+  C: [arc(52, 45, 30, 35, -40, -320)],
+  D: [line(25, 10, 25, 80), join(line(25, 10, 45, 10), arc(45, 45, 30, 35, -90, 90), line(45, 80, 25, 80))],
+  E: [line(25, 10, 25, 80), line(25, 10, 75, 10), line(25, 45, 65, 45), line(25, 80, 75, 80)],
+  F: [line(25, 10, 25, 80), line(25, 10, 75, 10), line(25, 45, 65, 45)],
+  G: [join(arc(52, 45, 30, 35, -40, -360), line(82, 45, 58, 45))],
+  H: [line(25, 10, 25, 80), line(75, 10, 75, 80), line(25, 45, 75, 45)],
+  I: [line(50, 10, 50, 80), line(35, 10, 65, 10), line(35, 80, 65, 80)],
+  J: [join(line(65, 10, 65, 60), arc(45, 60, 20, 20, 0, 180))],
+  K: [line(25, 10, 25, 80), line(75, 10, 25, 52), line(40, 40, 75, 80)],
+  L: [join(line(25, 10, 25, 80), line(25, 80, 75, 80))],
+  M: [line(20, 80, 20, 10), join(line(20, 10, 50, 55), line(50, 55, 80, 10)), line(80, 10, 80, 80)],
+  N: [line(25, 80, 25, 10), line(25, 10, 75, 80), line(75, 80, 75, 10)],
+  O: [arc(50, 45, 30, 35, -90, -450)],
+  P: [line(25, 10, 25, 80), join(line(25, 10, 55, 10), arc(55, 27.5, 17.5, 17.5, -90, 90), line(55, 45, 25, 45))],
+  Q: [arc(50, 45, 30, 35, -90, -450), line(55, 60, 80, 85)],
+  R: [
+    line(25, 10, 25, 80),
+    join(line(25, 10, 55, 10), arc(55, 27.5, 17.5, 17.5, -90, 90), line(55, 45, 25, 45)),
+    line(45, 45, 75, 80),
+  ],
+  S: [join(arc(50, 27.5, 25, 17.5, -20, -270), arc(50, 62.5, 25, 17.5, -90, 160))],
+  T: [line(20, 10, 80, 10), line(50, 10, 50, 80)],
+  U: [join(line(25, 10, 25, 55), arc(50, 55, 25, 25, 180, 0), line(75, 55, 75, 10))],
+  V: [join(line(20, 10, 50, 80), line(50, 80, 80, 10))],
+  W: [join(line(15, 10, 32, 80), line(32, 80, 50, 30), line(50, 30, 68, 80), line(68, 80, 85, 10))],
+  X: [line(25, 10, 75, 80), line(75, 10, 25, 80)],
+  Y: [line(25, 10, 50, 45), join(line(75, 10, 50, 45), line(50, 45, 50, 80))],
+  Z: [join(line(25, 10, 75, 10), line(75, 10, 25, 80), line(25, 80, 75, 80))],
+}
+
+const LOWERCASE: Record<string, Stroke[]> = {
+  a: [arc(50, 60, 20, 20, -10, -370), line(70, 40, 70, 80)],
+  b: [line(30, 10, 30, 80), arc(50, 60, 20, 20, -180, 180)],
+  c: [arc(50, 60, 20, 20, -40, -320)],
+  d: [arc(50, 60, 20, 20, -10, -370), line(70, 10, 70, 80)],
+  e: [join(line(30, 60, 70, 60), arc(50, 60, 20, 20, 0, -320))],
+  f: [join(arc(60, 22, 12, 12, -20, -180), line(48, 22, 48, 80)), line(35, 42, 62, 42)],
+  g: [arc(50, 60, 20, 20, -10, -370), join(line(70, 40, 70, 85), arc(50, 85, 20, 13, 0, 160))],
+  h: [line(30, 10, 30, 80), join(arc(50, 55, 20, 15, 180, 360), line(70, 55, 70, 80))],
+  i: [line(50, 40, 50, 80), dot(50, 25)],
+  j: [join(line(55, 40, 55, 88), arc(42, 88, 13, 10, 0, 160)), dot(55, 25)],
+  k: [line(30, 10, 30, 80), line(68, 40, 30, 62), line(42, 56, 70, 80)],
+  l: [line(50, 10, 50, 80)],
+  m: [
+    line(25, 40, 25, 80),
+    join(arc(37.5, 52, 12.5, 12, 180, 360), line(50, 52, 50, 80)),
+    join(arc(62.5, 52, 12.5, 12, 180, 360), line(75, 52, 75, 80)),
+  ],
+  n: [line(30, 40, 30, 80), join(arc(50, 55, 20, 15, 180, 360), line(70, 55, 70, 80))],
+  o: [arc(50, 60, 20, 20, -90, -450)],
+  p: [line(30, 40, 30, 98), arc(50, 60, 20, 20, -180, 180)],
+  q: [arc(50, 60, 20, 20, -10, -370), line(70, 40, 70, 98)],
+  r: [line(32, 40, 32, 80), arc(50, 55, 18, 13, 180, 315)],
+  s: [join(arc(50, 50, 17, 10, -20, -270), arc(50, 70, 17, 10, -90, 160))],
+  t: [line(45, 15, 45, 80), line(30, 40, 62, 40)],
+  u: [join(line(30, 40, 30, 62), arc(50, 62, 20, 18, 180, 0)), line(70, 40, 70, 80)],
+  v: [join(line(28, 40, 50, 80), line(50, 80, 72, 40))],
+  w: [join(line(20, 40, 35, 80), line(35, 80, 50, 52), line(50, 52, 65, 80), line(65, 80, 80, 40))],
+  x: [line(30, 40, 70, 80), line(70, 40, 30, 80)],
+  y: [line(30, 40, 50, 70), line(70, 40, 38, 98)],
+  z: [join(line(30, 40, 70, 40), line(70, 40, 30, 80), line(30, 80, 70, 80))],
+}
+
+const DIGITS: Record<string, Stroke[]> = {
+  '0': [arc(50, 45, 25, 35, -90, -450)],
+  '1': [join(line(35, 25, 52, 10), line(52, 10, 52, 80))],
+  '2': [join(arc(50, 30, 22, 20, -160, 40), line(67, 43, 28, 80), line(28, 80, 75, 80))],
+  '3': [join(arc(50, 27.5, 22, 17.5, -160, 90), arc(50, 62.5, 24, 17.5, -90, 160))],
+  '4': [join(line(60, 10, 25, 58), line(25, 58, 78, 58)), line(60, 10, 60, 80)],
+  '5': [join(line(32, 10, 32, 40), arc(48, 57, 22, 22, -130, 150)), line(32, 10, 72, 10)],
+  '6': [join(arc(52, 50, 22, 40, -60, -180), arc(50, 62, 20, 18, 180, -180))],
+  '7': [join(line(25, 10, 75, 10), line(75, 10, 40, 80))],
+  '8': [
+    join(
+      arc(50, 27.5, 20, 17.5, -90, -270),
+      arc(50, 62.5, 23, 17.5, -90, 270),
+      arc(50, 27.5, 20, 17.5, 90, -90)
+    ),
+  ],
+  '9': [arc(50, 30, 20, 20, 0, -360), line(70, 30, 68, 80)],
+}
+
+export const STROKE_TEMPLATES: Record<string, Stroke[]> = { ...UPPERCASE, ...LOWERCASE, ...DIGITS }
+
+export const TRACING_DIGITS = Object.keys(DIGITS)
+
+/**
+ * Traços de um caractere ('A', 'a', '7'); undefined se não houver modelo
+ */
+export function getStrokeTemplate(character: string): Stroke[] | undefined {
+  return STROKE_TEMPLATES[character]
+}
@@ -0,0 +1,90 @@
+import type { LanguageCode } from '../i18n/languages'
+
+/**
+ * Texto traduzido para todos os idiomas suportados
+ */
+export type Translations = Record<LanguageCode, string>
+
+/**
+ * Item de aprendizado básico (letra, número...)
+ * O texto de cada idioma fica no próprio item, ao lado do código OpenMoji do ícone
+ */
+export interface LearningItem extends Translations {
+  id: string
+  icon: string
+}
+
+/**
+ * Cor com o valor hexadecimal usado nos quadrados e no quiz
+ */
+export interface ColorItem extends LearningItem {
+  color: string
+}
+
+/**
+ * Palavra do jogo de sílabas
+ * `syllables` lista a divisão da palavra em cada idioma que tem divisão cadastrada
+ * (moras em kana para japonês, um caractere por sílaba para chinês)
+ * `readings` traz a leitura de cada sílaba quando a escrita não é fonética (pinyin para chinês)
+ */
+export interface WordItem extends LearningItem {
+  syllables: Partial<Record<LanguageCode, string[]>>
+  readings?: Partial<Record<LanguageCode, string[]>>
+}
+
+export type ContentKind = 'item' | 'color' | 'word'
+
+/**
+ * Disposição da grade de cartões de um pacote
+ * - compact: muitos itens pequenos (ex: alfabeto)
+ * - medium: quantidade intermediária
+ * - large: poucos itens grandes (ex: cores)
+ */
+export type PackLayout = 'compact' | 'medium' | 'large'
+
+/**
+ * Manifesto de um pacote de conteúdo
+ * Os pacotes embutidos e os carregados de arquivo seguem o mesmo formato
+ */
+export interface ContentPack {
+  id: string
+  title: Translations
+  /** Emoji usado nos menus */
+  emoji: string
+  layout: PackLayout
+  items: (LearningItem | ColorItem)[]
+  /** Texto para SEO (apenas pacotes embutidos) */
+  description?: string
+  keywords?: string
+}
+
+/**
+ * Condição de uma conquista, avaliada sobre os eventos dos jogos (src/utils/gameEvents.ts)
+ * - count: quantidade de eventos
+ * - max: maior valor de um campo do evento (ex: sequência de acertos)
+ * - distinct: quantidade de valores diferentes de um campo; 'all' = todos os itens da origem em `where.source`
+ * - consecutiveDays: dias seguidos com pelo menos um evento
+ * `where` filtra os eventos pelos valores dos campos
+ */
+export type AchievementCriteria =
+  | { type: 'count'; event: string; where?: Record<string, string | number | boolean>; target: number }
+  | { type: 'max'; event: string; where?: Record<string, string | number | boolean>; field: string; target: number }
+  | {
+      type: 'distinct'
+      event: string
+      where?: Record<string, string | number | boolean>
+      field: string
+      target: number | 'all'
+    }
+  | { type: 'consecutiveDays'; event: string; where?: Record<string, string | number | boolean>; target: number }
+
+/**
+ * Conquista: ganha uma figurinha (ícone OpenMoji) quando a condição é atingida
+ */
+export interface Achievement {
+  id: string
+  icon: string
+  title: Translations
+  description: Translations
+  criteria: AchievementCriteria
+}
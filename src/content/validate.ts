@@ -0,0 +1,368 @@
+import { SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE, isLanguageCode } from '../i18n/languages'
+import type { ContentKind, PackLayout } from './types'
+
+/**
+ * Problema encontrado na validação de conteúdo
+ */
+export interface ContentIssue {
+  /** Arquivo ou origem do conteúdo (ex: 'colors.json', 'i18n/de.json') */
+  source: string
+  /** Id do item afetado, quando houver */
+  id?: string
+  message: string
+  /** Chave em issues.* para mostrar o problema no idioma da interface (ver localizeIssue) */
+  code?: string
+  params?: Record<string, string | number>
+}
+
+// Códigos OpenMoji: sequências hexadecimais separadas por hífen (ex: 1F534, 0031-FE0F-20E3)
+const OPENMOJI_CODE = /^[0-9A-F]{4,6}(-[0-9A-F]{4,6})*$/
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/
+const PACK_ID = /^[a-z0-9]+(-[a-z0-9]+)*$/
+const PACK_LAYOUTS: PackLayout[] = ['compact', 'medium', 'large']
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const normalizeWord = (text: string) => text.replace(/\s+/g, '').toLocaleUpperCase()
+
+/**
+ * Valida uma lista de itens de conteúdo (letras, números, cores, palavras)
+ * Aceita `unknown` para também validar conteúdo carregado em tempo de execução
+ */
+export function validateItems(source: string, items: unknown, kind: ContentKind = 'item'): ContentIssue[] {
+  const issues: ContentIssue[] = []
+
+  if (!Array.isArray(items)) {
+    return [{ source, message: 'o conteúdo deve ser uma lista de itens', code: 'itemsNotList' }]
+  }
+
+  const seenIds = new Set<string>()
+
+  items.forEach((item, index) => {
+    if (!isRecord(item)) {
+      issues.push({ source, message: `item #${index} não é um objeto`, code: 'itemNotObject', params: { index } })
+      return
+    }
+
+    const id = typeof item.id === 'string' && item.id ? item.id : undefined
+    const issue = (message: string, code: string, params?: ContentIssue['params']) =>
+      issues.push({ source, id: id ?? `#${index}`, message, code, params })
+
+    if (!id) {
+      issue('id ausente ou não é texto', 'missingId')
+    } else if (seenIds.has(id)) {
+      issue('id duplicado', 'duplicateId')
+    } else {
+      seenIds.add(id)
+    }
+
+    // Traduções
+    const missing = SUPPORTED_LANGUAGES.filter(
+      (lang) => typeof item[lang] !== 'string' || !(item[lang] as string).trim()
+    )
+    if (missing.length > 0) {
+      issue(`tradução ausente: ${missing.join(', ')}`, 'missingTranslations', { languages: missing.join(', ') })
+    }
+
+    // Ícone OpenMoji
+    if (typeof item.icon !== 'string' || !OPENMOJI_CODE.test(item.icon)) {
+      issue(`código OpenMoji inválido: ${JSON.stringify(item.icon)}`, 'invalidIcon', { value: String(JSON.stringify(item.icon)) })
+    }
+
+    if (kind === 'color' && (typeof item.color !== 'string' || !HEX_COLOR.test(item.color))) {
+      issue(`cor hexadecimal inválida: ${JSON.stringify(item.color)} (esperado #RRGGBB)`, 'invalidColor', {
+        value: String(JSON.stringify(item.color)),
+      })
+    }
+
+    if (kind === 'word') {
+      issues.push(...validateSyllables(source, id ?? `#${index}`, item))
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Cada divisão em sílabas deve formar exatamente a palavra do mesmo idioma
+ */
+function validateSyllables(source: string, id: string, item: Record<string, unknown>): ContentIssue[] {
+  const issues: ContentIssue[] = []
+  const syllables = item.syllables
+
+  if (!isRecord(syllables)) {
+    return [{ source, id, message: 'campo "syllables" ausente' }]
+  }
+
+  for (const [lang, parts] of Object.entries(syllables)) {
+    if (!(SUPPORTED_LANGUAGES as readonly string[]).includes(lang)) {
+      issues.push({ source, id, message: `sílabas para idioma desconhecido: ${lang}` })
+      continue
+    }
+    if (!Array.isArray(parts) || parts.length === 0 || parts.some((p) => typeof p !== 'string' || !p)) {
+      issues.push({ source, id, message: `sílabas inválidas em ${lang}` })
+      continue
+    }
+    const word = item[lang]
+    if (typeof word === 'string' && normalizeWord(parts.join('')) !== normalizeWord(word)) {
+      issues.push({ source, id, message: `sílabas de ${lang} (${parts.join('-')}) não formam "${word}"` })
+    }
+  }
+
+  // Leituras (ex: pinyin) acompanham as sílabas uma a uma
+  if (item.readings !== undefined) {
+    if (!isRecord(item.readings)) {
+      return [...issues, { source, id, message: 'campo "readings" deve ser um objeto' }]
+    }
+    for (const [lang, readings] of Object.entries(item.readings)) {
+      const parts = syllables[lang]
+      if (!Array.isArray(parts)) {
+        issues.push({ source, id, message: `leituras em ${lang} sem sílabas correspondentes` })
+      } else if (!Array.isArray(readings) || readings.length !== parts.length) {
+        issues.push({ source, id, message: `leituras em ${lang} devem ter uma entrada por sílaba` })
+      }
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Valida o manifesto de um pacote de conteúdo (embutido ou carregado de arquivo)
+ * Pacotes em que todos os itens têm `color` são validados como pacotes de cores
+ */
+export function validatePack(source: string, pack: unknown): ContentIssue[] {
+  if (!isRecord(pack)) {
+    return [{ source, message: 'o pacote deve ser um objeto', code: 'packNotObject' }]
+  }
+
+  const issues: ContentIssue[] = []
+
+  if (typeof pack.id !== 'string' || !PACK_ID.test(pack.id)) {
+    issues.push({
+      source,
+      message: `id do pacote inválido: ${JSON.stringify(pack.id)} (use letras minúsculas, números e hífens)`,
+      code: 'invalidPackId',
+      params: { value: String(JSON.stringify(pack.id)) },
+    })
+  }
+
+  if (!isRecord(pack.title)) {
+    issues.push({ source, message: 'campo "title" ausente', code: 'missingField', params: { field: 'title' } })
+  } else {
+    const title = pack.title
+    const missing = SUPPORTED_LANGUAGES.filter((lang) => typeof title[lang] !== 'string' || !(title[lang] as string).trim())
+    if (missing.length > 0) {
+      issues.push({
+        source,
+        message: `título sem tradução: ${missing.join(', ')}`,
+        code: 'missingTitle',
+        params: { languages: missing.join(', ') },
+      })
+    }
+  }
+
+  if (typeof pack.emoji !== 'string' || !pack.emoji.trim()) {
+    issues.push({ source, message: 'campo "emoji" ausente', code: 'missingField', params: { field: 'emoji' } })
+  }
+
+  if (!PACK_LAYOUTS.includes(pack.layout as PackLayout)) {
+    issues.push({
+      source,
+      message: `layout inválido: ${JSON.stringify(pack.layout)} (use ${PACK_LAYOUTS.join(', ')})`,
+      code: 'invalidLayout',
+      params: { value: String(JSON.stringify(pack.layout)), layouts: PACK_LAYOUTS.join(', ') },
+    })
+  }
+
+  if (Array.isArray(pack.items) && pack.items.length === 0) {
+    issues.push({ source, message: 'o pacote não tem itens', code: 'noItems' })
+  }
+
+  const isColorPack = Array.isArray(pack.items) && pack.items.length > 0 && pack.items.every((item) => isRecord(item) && 'color' in item)
+  issues.push(...validateItems(source, pack.items, isColorPack ? 'color' : 'item'))
+
+  return issues
+}
+
+const ACHIEVEMENT_CRITERIA = ['count', 'max', 'distinct', 'consecutiveDays']
+
+/**
+ * Valida as definições de conquistas (src/content/achievements.json)
+ * @param sources Origens de conteúdo aceitas em `where.source` quando o alvo é 'all'
+ */
+export function validateAchievements(source: string, achievements: unknown, sources: string[]): ContentIssue[] {
+  if (!Array.isArray(achievements)) {
+    return [{ source, message: 'as conquistas devem ser uma lista' }]
+  }
+
+  const issues: ContentIssue[] = []
+  const seenIds = new Set<string>()
+
+  achievements.forEach((achievement, index) => {
+    if (!isRecord(achievement)) {
+      issues.push({ source, message: `conquista #${index} não é um objeto` })
+      return
+    }
+    const id = typeof achievement.id === 'string' ? achievement.id : `#${index}`
+    if (typeof achievement.id !== 'string' || !PACK_ID.test(achievement.id)) {
+      issues.push({ source, id, message: 'id inválido (use letras minúsculas, números e hífens)' })
+    } else if (seenIds.has(achievement.id)) {
+      issues.push({ source, id, message: 'id duplicado' })
+    }
+    seenIds.add(id)
+
+    if (typeof achievement.icon !== 'string' || !OPENMOJI_CODE.test(achievement.icon)) {
+      issues.push({ source, id, message: `código de ícone inválido: ${JSON.stringify(achievement.icon)}` })
+    }
+
+    for (const field of ['title', 'description']) {
+      const text = achievement[field]
+      const missing = SUPPORTED_LANGUAGES.filter((lang) => !isRecord(text) || typeof text[lang] !== 'string' || !(text[lang] as string).trim())
+      if (missing.length > 0) {
+        issues.push({ source, id, message: `"${field}" sem tradução: ${missing.join(', ')}` })
+      }
+    }
+
+    const criteria = achievement.criteria
+    if (!isRecord(criteria) || !ACHIEVEMENT_CRITERIA.includes(criteria.type as string)) {
+      issues.push({ source, id, message: `condição inválida (use ${ACHIEVEMENT_CRITERIA.join(', ')})` })
+      return
+    }
+    if (typeof criteria.event !== 'string' || !criteria.event) {
+      issues.push({ source, id, message: 'condição sem "event"' })
+    }
+    if (criteria.where !== undefined && !isRecord(criteria.where)) {
+      issues.push({ source, id, message: '"where" deve ser um objeto' })
+    }
+    if ((criteria.type === 'max' || criteria.type === 'distinct') && typeof criteria.field !== 'string') {
+      issues.push({ source, id, message: 'condição sem "field"' })
+    }
+    if (criteria.target === 'all') {
+      const where = isRecord(criteria.where) ? criteria.where : {}
+      if (criteria.type !== 'distinct' || !sources.includes(where.source as string)) {
+        issues.push({ source, id, message: `alvo "all" exige tipo distinct e where.source entre ${sources.join(', ')}` })
+      }
+    } else if (typeof criteria.target !== 'number' || criteria.target < 1) {
+      issues.push({ source, id, message: 'alvo deve ser um número maior que zero' })
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Lista as chaves de um arquivo de tradução no formato 'menu.home'
+ */
+function flattenKeys(value: Record<string, unknown>, prefix = ''): string[] {
+  return Object.entries(value).flatMap(([key, child]) => {
+    const path = prefix ? `${prefix}.${key}` : key
+    return isRecord(child) ? flattenKeys(child, path) : [path]
+  })
+}
+
+/**
+ * Compara as chaves de todos os arquivos de tradução com o idioma de referência
+ */
+export function validateTranslationParity(locales: Record<string, unknown>): ContentIssue[] {
+  const issues: ContentIssue[] = []
+  const reference = locales[DEFAULT_LANGUAGE]
+
+  if (!isRecord(reference)) {
+    return [{ source: `i18n/${DEFAULT_LANGUAGE}.json`, message: 'arquivo de referência ausente' }]
+  }
+
+  const referenceKeys = new Set(flattenKeys(reference))
+
+  for (const lang of SUPPORTED_LANGUAGES) {
+    const source = `i18n/${lang}.json`
+    const locale = locales[lang]
+
+    if (!isRecord(locale)) {
+      issues.push({ source, message: 'arquivo de tradução ausente' })
+      continue
+    }
+
+    const keys = new Set(flattenKeys(locale))
+    const missing = [...referenceKeys].filter((key) => !keys.has(key))
+    const extra = [...keys].filter((key) => !referenceKeys.has(key))
+
+    if (missing.length > 0) {
+      issues.push({ source, message: `chaves ausentes: ${missing.join(', ')}` })
+    }
+    if (extra.length > 0) {
+      issues.push({ source, message: `chaves que não existem em ${DEFAULT_LANGUAGE}: ${extra.join(', ')}` })
+    }
+  }
+
+  return issues
+}
+
+export function formatIssue(issue: ContentIssue): string {
+  return issue.id ? `${issue.source} [${issue.id}]: ${issue.message}` : `${issue.source}: ${issue.message}`
+}
+
+/**
+ * formatIssue no idioma da interface
+ * Problemas sem `code` só aparecem no terminal (ex: sílabas, conquistas) e ficam em português
+ */
+export function localizeIssue(
+  issue: ContentIssue,
+  translate: (key: string, params?: Record<string, string | number>) => string
+): string {
+  return formatIssue(issue.code ? { ...issue, message: translate(`issues.${issue.code}`, issue.params) } : issue)
+}
+
+// Lista no máximo alguns itens para a mensagem continuar legível
+const summarize = (values: string[], max = 10) =>
+  values.length > max ? `${values.slice(0, max).join(', ')} e mais ${values.length - max}` : values.join(', ')
+
+/**
+ * Valida o manifesto de áudios gravados
+ * Cada idioma presente precisa cobrir todas as chaves esperadas; idiomas ausentes não têm fallback
+ * @param expectedKeys - Chaves de todos os itens e frases (ver content/audio.ts)
+ * @param fileExists - Verifica se o arquivo existe (caminho relativo a public/audio)
+ */
+export function validateAudioManifest(
+  source: string,
+  manifest: unknown,
+  expectedKeys: string[],
+  fileExists: (file: string) => boolean
+): ContentIssue[] {
+  if (!isRecord(manifest) || manifest.version !== 1 || !isRecord(manifest.languages)) {
+    return [{ source, message: 'o manifesto deve ter "version": 1 e um objeto "languages"' }]
+  }
+
+  const issues: ContentIssue[] = []
+  const expected = new Set(expectedKeys)
+
+  Object.entries(manifest.languages).forEach(([lang, entries]) => {
+    if (!isLanguageCode(lang)) {
+      issues.push({ source, id: lang, message: 'idioma não suportado' })
+      return
+    }
+    if (!isRecord(entries)) {
+      issues.push({ source, id: lang, message: 'o idioma deve mapear chaves para arquivos' })
+      return
+    }
+
+    Object.entries(entries).forEach(([key, file]) => {
+      if (!expected.has(key)) {
+        issues.push({ source, id: `${lang} ${key}`, message: 'chave não corresponde a nenhum item ou frase' })
+      }
+      if (typeof file !== 'string' || !file || file.split('/').includes('..')) {
+        issues.push({ source, id: `${lang} ${key}`, message: 'caminho de arquivo inválido' })
+      } else if (!fileExists(file)) {
+        issues.push({ source, id: `${lang} ${key}`, message: `arquivo não encontrado: ${file}` })
+      }
+    })
+
+    const missing = expectedKeys.filter((key) => !(key in entries))
+    if (missing.length > 0) {
+      issues.push({ source, id: lang, message: `faltam ${missing.length} áudio(s): ${summarize(missing)}` })
+    }
+  })
+
+  return issues
+}
@@ -8,6 +8,26 @@ import de from './de.json'
 import it from './it.json'
 import ja from './ja.json'
 import zh from './zh.json'
+import { isLanguageCode, toLanguageCode, DEFAULT_LANGUAGE, type LanguageCode } from './languages'
+
+const LANGUAGE_STORAGE_KEY = 'aprendeplay:language'
+
+/**
+ * Idioma inicial: ?lang= da URL (links hreflang), último idioma usado, idioma do navegador
+ * O perfil da criança escolhido depois troca para o idioma preferido dela
+ */
+function getInitialLanguage(): LanguageCode {
+  if (typeof window === 'undefined') return DEFAULT_LANGUAGE
+  const fromUrl = new URLSearchParams(window.location.search).get('lang')
+  if (isLanguageCode(fromUrl)) return fromUrl
+  try {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY)
+    if (isLanguageCode(stored)) return stored
+  } catch {
+    // localStorage indisponível (ex: modo privado)
+  }
+  return toLanguageCode(navigator.language ?? DEFAULT_LANGUAGE)
+}
 
 i18n.use(initReactI18next).init({
   resources: {
@@ -20,9 +40,18 @@ i18n.use(initReactI18next).init({
     ja: { translation: ja },
     zh: { translation: zh }
   },
-  lng: 'pt',
+  lng: getInitialLanguage(),
   fallbackLng: 'pt',
   interpolation: { escapeValue: false }
 })
 
+// Lembrar o idioma entre recarregamentos
+i18n.on('languageChanged', (lng) => {
+  try {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, toLanguageCode(lng))
+  } catch {
+    // localStorage indisponível (ex: modo privado)
+  }
+})
+
 export default i18n
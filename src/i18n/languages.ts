@@ -0,0 +1,55 @@
+/**
+ * Idiomas suportados pela interface e pelo conteúdo
+ */
+export const SUPPORTED_LANGUAGES = ['pt', 'en', 'es', 'fr', 'de', 'it', 'ja', 'zh'] as const
+
+export type LanguageCode = (typeof SUPPORTED_LANGUAGES)[number]
+
+/**
+ * Idioma de referência: usado como fallback e como base da paridade de traduções
+ */
+export const DEFAULT_LANGUAGE: LanguageCode = 'pt'
+
+/**
+ * Bandeira e nome de cada idioma, no próprio idioma
+ */
+export const LANGUAGE_LABELS: Record<LanguageCode, { flag: string; name: string }> = {
+  pt: { flag: '🇧🇷', name: 'Português' },
+  en: { flag: '🇺🇸', name: 'English' },
+  es: { flag: '🇪🇸', name: 'Español' },
+  fr: { flag: '🇫🇷', name: 'Français' },
+  de: { flag: '🇩🇪', name: 'Deutsch' },
+  it: { flag: '🇮🇹', name: 'Italiano' },
+  ja: { flag: '🇯🇵', name: '日本語' },
+  zh: { flag: '🇨🇳', name: '中文' },
+}
+
+const SPEECH_LANGS: Record<LanguageCode, string> = {
+  pt: 'pt-BR',
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+  it: 'it-IT',
+  ja: 'ja-JP',
+  zh: 'zh-CN',
+}
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value)
+}
+
+/**
+ * Normaliza um código vindo do i18next ('pt-BR', 'en') para um idioma suportado
+ */
+export function toLanguageCode(lang: string): LanguageCode {
+  const base = lang.split('-')[0]
+  return isLanguageCode(base) ? base : DEFAULT_LANGUAGE
+}
+
+/**
+ * Código BCP 47 usado pela Web Speech API
+ */
+export function getSpeechLang(lang: string): string {
+  return SPEECH_LANGS[toLanguageCode(lang)]
+}
@@ -5,6 +5,12 @@ import { HelmetProvider } from 'react-helmet-async'
 import App from './App'
 import './index.css'
 import './i18n'
+import { validateBuiltInContent, formatIssue } from './content'
+
+// Em desenvolvimento, avisar sobre conteúdo incompleto (traduções, ícones, cores)
+if (import.meta.env.DEV) {
+  validateBuiltInContent().forEach((issue) => console.warn('[conteúdo]', formatIssue(issue)))
+}
 
 createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
@@ -0,0 +1,315 @@
+import { useState, useEffect, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { motion, type PanInfo } from 'framer-motion'
+import { colors, getItemText, getAudioKey } from '../content'
+import { getSpeechLang } from '../i18n/languages'
+import { speak, enqueueSpeech, cancelSpeech } from '../utils/speak'
+import { wait } from '../utils/wait'
+import { vibrate } from '../utils/vibrate'
+import { playBackgroundMusic, stopBackgroundMusic, playCorrectSound, playWrongSound, playSound } from '../utils/sounds'
+import { useProfileState } from '../utils/profiles'
+import { PAINT_COLORS, getChallengeTargets, getMixHex, isSameMix, mixColors, type MixResult } from '../utils/colorMixing'
+import { registerGame, takeBreakIfDue } from '../utils/screenTime'
+import { emitGameEvent } from '../utils/gameEvents'
+import SEO from '../components/SEO'
+import NoVoiceNotice from '../components/NoVoiceNotice'
+import Confetti from '../components/Confetti'
+
+type ColorMixingMode = 'free' | 'challenge'
+
+const CHALLENGE_TARGETS = getChallengeTargets()
+
+// Tempo para ver a cor misturada antes de esvaziar a tigela
+const RESULT_VISIBLE_MS = 2500
+const CORRECT_FEEDBACK_MS = 1500
+
+const colorById = (id: string) => colors.find((color) => color.id === id)!
+
+/**
+ * Página de mistura de cores
+ * A criança arrasta (ou toca) duas tintas para a tigela e vê e ouve a cor que elas formam;
+ * no modo desafio o app pede uma cor e confere a mistura
+ */
+export default function ColorMixing() {
+  const { t, i18n } = useTranslation()
+  const navigate = useNavigate()
+  const [score, setScore] = useProfileState('colorMixing.score', 0)
+  const [streak, setStreak] = useProfileState('colorMixing.streak', 0)
+  const [mode, setMode] = useState<ColorMixingMode>('free')
+  // Tintas na tigela (no máximo duas)
+  const [bowl, setBowl] = useState<string[]>([])
+  const [target, setTarget] = useState<MixResult | null>(null)
+  const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null)
+  const [isMixing, setIsMixing] = useState(false)
+  const bowlRef = useRef<HTMLDivElement>(null)
+  const isMountedRef = useRef(true)
+  // Misturas erradas no desafio atual (rodada perfeita = nenhuma)
+  const mistakesRef = useRef(0)
+
+  const langCode = getSpeechLang(i18n.language)
+  const result = bowl.length === 2 ? mixColors(bowl[0], bowl[1]) : null
+
+  /**
+   * Nome traduzido do resultado: o nome vem de colors.json, com "claro"/"escuro" quando for o caso
+   */
+  const mixName = (mix: MixResult) => {
+    const name = getItemText(colorById(mix.colorId), i18n.language)
+    return mix.shade ? t(`colorMixing.${mix.shade}`, { color: name }) : name
+  }
+
+  const askChallenge = (challenge: MixResult) => {
+    speak(t('colorMixing.make', { color: mixName(challenge) }), langCode)
+  }
+
+  const newChallenge = () => {
+    const others = CHALLENGE_TARGETS.filter((option) => !target || !isSameMix(option, target))
+    const next = others[Math.floor(Math.random() * others.length)]
+    setTarget(next)
+    setBowl([])
+    setFeedback(null)
+    mistakesRef.current = 0
+    askChallenge(next)
+  }
+
+  useEffect(() => {
+    isMountedRef.current = true
+    playBackgroundMusic()
+    const unregisterGame = registerGame()
+
+    return () => {
+      isMountedRef.current = false
+      unregisterGame()
+      stopBackgroundMusic()
+      cancelSpeech()
+    }
+  }, [])
+
+  // Troca de modo: tigela vazia e, no desafio, um pedido novo
+  useEffect(() => {
+    setBowl([])
+    setFeedback(null)
+    if (mode === 'challenge') {
+      newChallenge()
+    } else {
+      setTarget(null)
+    }
+  }, [mode])
+
+  /**
+   * Duas tintas na tigela: mostra, fala e (no desafio) confere a mistura
+   * A frase do resultado entra na fila, depois do nome da segunda tinta
+   */
+  const mix = async (paints: string[]) => {
+    const mixed = mixColors(paints[0], paints[1])
+    const [first, second] = paints.map((id) => getItemText(colorById(id), i18n.language))
+    setIsMixing(true)
+    playSound('levelUp')
+
+    if (mode === 'free' || !target) {
+      await Promise.all([
+        enqueueSpeech(t('colorMixing.result', { first, second, result: mixName(mixed) }), langCode),
+        wait(RESULT_VISIBLE_MS),
+      ])
+      if (!isMountedRef.current) return
+      // Cada mistura conta como rodada: o jogo fica registrado, então a pausa do tempo de tela só vem daqui
+      await takeBreakIfDue()
+      if (!isMountedRef.current) return
+      setBowl([])
+      setIsMixing(false)
+      return
+    }
+
+    const isCorrect = isSameMix(mixed, target)
+    emitGameEvent({ type: 'answer', game: 'color-mixing', correct: isCorrect, streak: isCorrect ? streak + 1 : 0 })
+
+    if (isCorrect) {
+      setFeedback('correct')
+      setScore((prev) => prev + 10)
+      setStreak((prev) => prev + 1)
+      vibrate([30, 50, 30])
+      if ((streak + 1) % 5 === 0) {
+        playSound('streak')
+      } else {
+        playCorrectSound()
+      }
+      emitGameEvent({ type: 'round-completed', game: 'color-mixing', perfect: mistakesRef.current === 0 })
+      await Promise.all([
+        enqueueSpeech(t('colorMixing.result', { first, second, result: mixName(mixed) }), langCode),
+        wait(CORRECT_FEEDBACK_MS),
+      ])
+      if (!isMountedRef.current) return
+      await takeBreakIfDue()
+      if (!isMountedRef.current) return
+      setIsMixing(false)
+      newChallenge()
+    } else {
+      // Fala a cor que saiu e pede de novo
+      mistakesRef.current += 1
+      setFeedback('incorrect')
+      setStreak(0)
+      vibrate([100, 50, 100, 50, 100])
+      playWrongSound()
+      await Promise.all([
+        enqueueSpeech(t('colorMixing.result', { first, second, result: mixName(mixed) }), langCode),
+        wait(RESULT_VISIBLE_MS),
+      ])
+      if (!isMountedRef.current) return
+      setBowl([])
+      setFeedback(null)
+      setIsMixing(false)
+      askChallenge(target)
+    }
+  }
+
+  const addPaint = (id: string) => {
+    if (isMixing || bowl.length >= 2) return
+    const paints = [...bowl, id]
+    setBowl(paints)
+    vibrate(20)
+    speak(getItemText(colorById(id), i18n.language), langCode, getAudioKey('colors', id))
+    if (paints.length === 2) mix(paints)
+  }
+
+  // Soltou a tinta em cima da tigela?
+  const handleDragEnd = (id: string, info: PanInfo) => {
+    const rect = bowlRef.current?.getBoundingClientRect()
+    if (!rect) return
+    const x = info.point.x - window.scrollX
+    const y = info.point.y - window.scrollY
+    if (x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom) addPaint(id)
+  }
+
+  const bowlColor = result ? getMixHex(result, colors) : bowl.length === 1 ? colorById(bowl[0]).color : undefined
+
+  return (
+    <>
+      <SEO
+        title={t('menu.colorMixing')}
+        description="Mistura de Cores - crianças misturam tintas e descobrem novas cores: vermelho e amarelo fazem laranja, azul e amarelo fazem verde. Com desafios e áudio."
+        keywords="mistura de cores, cores primárias, cores secundárias, educação infantil, color mixing, kids learning"
+        path="/color-mixing"
+      />
+      <div className="relative h-screen bg-gradient-to-b from-amber-300 to-rose-500 flex flex-col items-center justify-start p-3 sm:p-6 text-white overflow-hidden">
+      <div className="absolute top-0 left-0 right-0 px-3 sm:px-6 py-3 sm:py-4 flex items-center justify-between z-10 w-full bg-gradient-to-b from-black/10 to-transparent">
+        <motion.button
+          onClick={() => navigate('/')}
+          className="px-3 sm:px-6 py-1 sm:py-2 bg-white/20 rounded-full hover:bg-white/30 transition-all text-xs sm:text-lg font-bold"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          ← {t('common.back') || 'Voltar'}
+        </motion.button>
+
+        {mode === 'challenge' && (
+          <div className="flex gap-4 sm:gap-8 text-center">
+            <div>
+              <p className="text-xs sm:text-sm opacity-75">{t('quiz.score') || 'Pontos'}</p>
+              <p className="text-2xl sm:text-4xl font-bold">{score}</p>
+            </div>
+            <div>
+              <p className="text-xs sm:text-sm opacity-75">{t('quiz.streak') || 'Sequência'}</p>
+              <motion.p
+                className="text-2xl sm:text-4xl font-bold text-yellow-300"
+                animate={streak > 0 ? { scale: [1, 1.1, 1] } : {}}
+                transition={{ duration: 0.3 }}
+              >
+                {streak}
+              </motion.p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col items-center justify-center flex-1 w-full pt-16 sm:pt-20 gap-3 sm:gap-5">
+        <h1 className="text-2xl sm:text-4xl md:text-6xl font-bold text-center">{t('menu.colorMixing') || 'Mistura de Cores'}</h1>
+
+        <div className="flex gap-2">
+          {(['free', 'challenge'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              disabled={isMixing}
+              className={`px-3 sm:px-5 py-1 sm:py-2 rounded-full text-xs sm:text-base font-bold transition-all ${
+                mode === option ? 'bg-white text-rose-600' : 'bg-white/20 hover:bg-white/30'
+              }`}
+            >
+              {option === 'free' ? t('colorMixing.modeFree') || 'Experimentar' : t('colorMixing.modeChallenge') || 'Desafio'}
+            </button>
+          ))}
+        </div>
+
+        {/* Pedido do desafio */}
+        {mode === 'challenge' && target && (
+          <motion.button
+            key={`${target.colorId}-${target.shade}`}
+            onClick={() => askChallenge(target)}
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="flex items-center gap-3 px-5 py-2 rounded-full bg-white/20 hover:bg-white/30 text-lg sm:text-2xl font-bold"
+          >
+            <span className="w-8 h-8 sm:w-10 sm:h-10 rounded-full border-4 border-white" style={{ backgroundColor: getMixHex(target, colors) }} />
+            🔊 {t('colorMixing.make', { color: mixName(target) })}
+          </motion.button>
+        )}
+        <NoVoiceNotice />
+
+        {/* Tigela */}
+        <div
+          ref={bowlRef}
+          className="relative w-48 h-32 sm:w-72 sm:h-44 rounded-b-full bg-white/90 border-8 border-white shadow-2xl flex items-center justify-center overflow-hidden"
+        >
+          <motion.div
+            className="absolute inset-3 rounded-b-full"
+            animate={{ backgroundColor: bowlColor ?? '#FFFFFF00', scale: result ? [0.9, 1.05, 1] : 1 }}
+            transition={{ duration: 0.6 }}
+          />
+          <p className="relative text-center text-slate-700 font-bold px-2 text-sm sm:text-xl">
+            {result ? mixName(result) : bowl.length === 0 ? t('colorMixing.dropHere') || 'Arraste duas tintas para cá' : '+ ?'}
+          </p>
+        </div>
+
+        {/* Tintas: arrastar até a tigela ou tocar */}
+        <div className="flex flex-wrap justify-center gap-3 sm:gap-6">
+          {PAINT_COLORS.map((id) => {
+            const paint = colorById(id)
+            return (
+              <motion.button
+                key={id}
+                drag={!isMixing}
+                dragSnapToOrigin
+                dragMomentum={false}
+                onDragEnd={(_, info) => handleDragEnd(id, info)}
+                onTap={() => addPaint(id)}
+                whileDrag={{ scale: 1.2, zIndex: 30 }}
+                whileTap={{ scale: 0.95 }}
+                className="w-16 h-16 sm:w-24 sm:h-24 rounded-full border-4 border-white/70 shadow-xl cursor-grab touch-none"
+                style={{ backgroundColor: paint.color }}
+                aria-label={getItemText(paint, i18n.language)}
+              />
+            )
+          })}
+        </div>
+
+        {feedback && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className={`text-center py-2 sm:py-3 px-4 sm:px-8 rounded-full text-sm sm:text-2xl font-bold ${
+              feedback === 'correct' ? 'bg-green-500/80' : 'bg-red-500/80'
+            }`}
+          >
+            {feedback === 'correct' ? (
+              <span>🎉 {t('quiz.correct') || 'Parabéns!'} {t('quiz.points', { count: 10 })}</span>
+            ) : (
+              <span>😅 {t('quiz.tryAgain') || 'Tente novamente!'}</span>
+            )}
+          </motion.div>
+        )}
+
+        {feedback === 'correct' && <Confetti streak={streak} />}
+      </div>
+      </div>
+    </>
+  )
+}
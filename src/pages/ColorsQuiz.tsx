@@ -1,28 +1,25 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
-import { useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import colors from '../data/colors.json'
+import { colors, getItemText, getAudioKey, type ColorItem } from '../content'
+import { getSpeechLang } from '../i18n/languages'
 import { speak } from '../utils/speak'
-import { vibrate } from '../utils/vibrate'
-import { playBackgroundMusic, stopBackgroundMusic, playCorrectSound, playWrongSound } from '../utils/sounds'
+import { useProfileState, useProfiles, useActiveProfile } from '../utils/profiles'
+import {
+  COLOR_QUIZ_LEVELS,
+  buildColorOptions,
+  clampColorLevel,
+  getInitialColorLevel,
+  getNextColorLevel,
+} from '../utils/colorDifficulty'
+import { pickNextItem } from '../utils/scheduler'
+import { useQuiz } from '../utils/quiz'
 import SEO from '../components/SEO'
+import NoVoiceNotice from '../components/NoVoiceNotice'
+import QuizHeader from '../components/QuizHeader'
+import QuizFeedback from '../components/QuizFeedback'
 
-type Color = typeof colors[0]
-
-const getLanguageCode = (lang: string): string => {
-  const langMap: { [key: string]: string } = {
-    pt: 'pt-BR',
-    en: 'en-US',
-    es: 'es-ES',
-    fr: 'fr-FR',
-    de: 'de-DE',
-    it: 'it-IT',
-    ja: 'ja-JP',
-    zh: 'zh-CN',
-  }
-  return langMap[lang] || 'en-US'
-}
+type Color = ColorItem
 
 /**
  * Página de Quiz de Cores
@@ -31,17 +28,28 @@ const getLanguageCode = (lang: string): string => {
  */
 export default function ColorsQuiz() {
   const { t, i18n } = useTranslation()
-  const navigate = useNavigate()
-  const [score, setScore] = useState(0)
-  const [streak, setStreak] = useState(0)
+  const { score, streak, feedback, isAnswering, showParticles, attemptRef, startRound, submitAnswer } = useQuiz(
+    'colors-quiz',
+    'colorsQuiz'
+  )
+  // Nível de dificuldade: começa pela idade da criança e se ajusta sozinho
+  const { loaded: profilesLoaded } = useProfiles()
+  const profile = useActiveProfile()
+  // null = perfil ainda sem nível salvo
+  const [storedLevel, setLevel, levelLoaded] = useProfileState<number | null>('colorsQuiz.level', null)
+  const level = storedLevel ?? getInitialColorLevel(profile?.ageBand)
   const [targetColor, setTargetColor] = useState<Color | null>(null)
   const [options, setOptions] = useState<Color[]>([])
-  const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null)
-  const [isAnswering, setIsAnswering] = useState(false)
-  const [showParticles, setShowParticles] = useState(false)
+  // Acertos/erros de primeira desde a última mudança de nível
+  const recentAnswersRef = useRef<boolean[]>([])
+  // Nível sempre atual para as rodadas geradas depois de um await
+  const levelRef = useRef(level)
+  levelRef.current = level
+  const levelSettings = COLOR_QUIZ_LEVELS[clampColorLevel(level)]
 
-  const langCode = getLanguageCode(i18n.language)
-  const colorName = (color: Color) => (color as any)[i18n.language] ?? color.pt
+  const langCode = getSpeechLang(i18n.language)
+  const colorName = (color: Color) => getItemText(color, i18n.language)
+  const sayColor = (color: Color) => speak(colorName(color), langCode, getAudioKey('colors', color.id))
 
   /**
    * Embaralha apenas as opções mantendo a cor-alvo
@@ -55,35 +63,31 @@ export default function ColorsQuiz() {
    * Gera uma nova rodada do quiz
    */
   const generateNewQuiz = () => {
-    const randomTarget = colors[Math.floor(Math.random() * colors.length)]
+    // Cor escolhida pela repetição espaçada: as que a criança erra voltam mais cedo
+    const randomTarget = pickNextItem(colors, (color) => getAudioKey('colors', color.id), i18n.language)
     setTargetColor(randomTarget)
-    setFeedback(null)
-    setIsAnswering(false)
-    setShowParticles(false)
+    startRound()
 
-    // Gerar 4 opções aleatórias (garantir que uma é a correta)
-    const shuffled = [...colors].sort(() => Math.random() - 0.5).slice(0, 4)
-    if (!shuffled.includes(randomTarget)) {
-      shuffled[0] = randomTarget
-    }
-    setOptions(shuffled.sort(() => Math.random() - 0.5))
+    // Opções conforme o nível: quantidade e cores parecidas com a certa
+    setOptions(buildColorOptions(randomTarget, colors, COLOR_QUIZ_LEVELS[clampColorLevel(levelRef.current)]))
 
     // Falar a pergunta
-    setTimeout(() => {
-      speak(colorName(randomTarget), langCode)
-    }, 300)
+    sayColor(randomTarget)
   }
 
-  // Inicializar quiz e música de fundo
+  // O nível inicial depende da faixa de idade, que só existe depois que os perfis carregam do IndexedDB
   useEffect(() => {
-    generateNewQuiz()
-    playBackgroundMusic(0.3)
+    if (profilesLoaded && storedLevel === null) setLevel(getInitialColorLevel(profile?.ageBand))
+  }, [profilesLoaded, profile?.id, storedLevel])
 
-    // Cleanup ao sair da página
-    return () => {
-      stopBackgroundMusic()
-    }
-  }, [])
+  // Primeira rodada só depois de carregar o nível salvo, senão as opções seriam sempre as do nível da idade
+  // (música e tempo de tela ficam com useQuiz)
+  const hasStartedRef = useRef(false)
+  useEffect(() => {
+    if (hasStartedRef.current || !levelLoaded || storedLevel === null) return
+    hasStartedRef.current = true
+    generateNewQuiz()
+  }, [levelLoaded, storedLevel])
 
   /**
    * Tratar resposta do usuário
@@ -91,49 +95,31 @@ export default function ColorsQuiz() {
   const handleAnswerClick = (selectedColor: Color) => {
     if (isAnswering || !targetColor) return
 
-    setIsAnswering(true)
-
     const isCorrect = selectedColor.id === targetColor.id
 
-    if (isCorrect) {
-      // ✅ ACERTO
-      setFeedback('correct')
-      setScore((prev) => prev + 10)
-      setStreak((prev) => prev + 1)
-      vibrate([30, 50, 30])
-      setShowParticles(true)
-      playCorrectSound(0.5)
-
-      // Falar "certo" em vez de repetir a cor
-      const correctWord = i18n.language === 'pt' ? 'certo' : i18n.language === 'es' ? 'correcto' : 'correct'
-      speak(correctWord, langCode)
-
-      // Próxima pergunta após feedback (aumentado para 2.5s para melhor visualização)
-      setTimeout(() => {
-        generateNewQuiz()
-      }, 2500)
-    } else {
-      // ❌ ERRO - Mantém a mesma cor até acertar
-      setFeedback('incorrect')
-      vibrate([100, 50, 100, 50, 100])
-      setStreak(0)
-      playWrongSound(0.5)
+    // Ajustar o nível pela primeira resposta de cada rodada
+    if (attemptRef.current === 1) {
+      recentAnswersRef.current = [...recentAnswersRef.current, isCorrect]
+      const nextLevel = getNextColorLevel(clampColorLevel(level), recentAnswersRef.current)
+      if (nextLevel !== clampColorLevel(level)) {
+        recentAnswersRef.current = []
+        setLevel(nextLevel)
+      }
+    }
 
+    submitAnswer({
+      itemKey: getAudioKey('colors', targetColor.id),
+      correct: isCorrect,
+      chosen: getAudioKey('colors', selectedColor.id),
       // Falar o nome da cor que clicou (para aprendizado)
-      speak(colorName(selectedColor), langCode)
-
-      // Voltar para tentar novamente (NÃO gera novo quiz)
-      setTimeout(() => {
-        setFeedback(null)
-        setIsAnswering(false)
-        // Embaralhar as opções para dificultar - criança não decorar a posição
+      sayChosen: () => sayColor(selectedColor),
+      onNext: generateNewQuiz,
+      // Mantém a mesma cor até acertar: embaralha as opções e fala a cor certa de novo
+      onRetry: () => {
         shuffleOptions()
-        // Pronuncia a cor correta quando reseta para tentar novamente
-        setTimeout(() => {
-          speak(colorName(targetColor), langCode)
-        }, 300)
-      }, 2800)
-    }
+        sayColor(targetColor)
+      },
+    })
   }
 
   return (
@@ -145,43 +131,20 @@ export default function ColorsQuiz() {
         path="/colors-quiz"
       />
       <div className="relative h-screen bg-gradient-to-b from-sky-400 to-indigo-600 flex flex-col items-center justify-start p-3 sm:p-6 text-white overflow-hidden">
-      {/* Header com Voltar e Placar */}
-      <div className="absolute top-0 left-0 right-0 px-3 sm:px-6 py-3 sm:py-4 flex items-center justify-between z-10 w-full bg-gradient-to-b from-black/10 to-transparent">
-        {/* Voltar ao menu */}
-        <motion.button
-          onClick={() => navigate('/')}
-          className="px-3 sm:px-6 py-1 sm:py-2 bg-white/20 rounded-full hover:bg-white/30 transition-all text-xs sm:text-lg font-bold"
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-        >
-          ← {t('common.back') || 'Voltar'}
-        </motion.button>
-
-        {/* Placar */}
-        <motion.div
-          initial={{ opacity: 0, y: -20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="flex gap-4 sm:gap-8 text-center"
-        >
-        {/* Score */}
-        <div>
-          <p className="text-xs sm:text-sm opacity-75">{t('quiz.score') || 'Pontos'}</p>
-          <p className="text-2xl sm:text-4xl font-bold">{score}</p>
-        </div>
-
-        {/* Streak */}
+      <QuizHeader score={score} streak={streak}>
+        {/* Nível */}
         <div>
-          <p className="text-xs sm:text-sm opacity-75">{t('quiz.streak') || 'Sequência'}</p>
+          <p className="text-xs sm:text-sm opacity-75">{t('quiz.level') || 'Nível'}</p>
           <motion.p
-            className="text-2xl sm:text-4xl font-bold text-yellow-300"
-            animate={streak > 0 ? { scale: [1, 1.1, 1] } : {}}
-            transition={{ duration: 0.3 }}
+            key={level}
+            className="text-2xl sm:text-4xl font-bold"
+            initial={{ scale: 1.5 }}
+            animate={{ scale: 1 }}
           >
-            {streak}
+            {clampColorLevel(level) + 1}
           </motion.p>
         </div>
-        </motion.div>
-      </div>
+      </QuizHeader>
 
       {/* Conteúdo principal */}
       <div className="flex flex-col items-center justify-center flex-1 w-full pt-20 sm:pt-24">
@@ -203,11 +166,12 @@ export default function ColorsQuiz() {
           className="mb-3 sm:mb-6 text-center"
         >
           <p className="text-sm sm:text-2xl mb-2 sm:mb-4 opacity-90">{t('quiz.selectColor') || 'Clique na cor:'}</p>
+          <NoVoiceNotice className="mb-2 sm:mb-4" />
 
           {/* Botão de som para ouvir a cor */}
           {targetColor && (
             <motion.button
-              onClick={() => speak(colorName(targetColor), langCode)}
+              onClick={() => sayColor(targetColor)}
               className="mx-auto w-16 h-16 sm:w-24 sm:h-24 rounded-full bg-white/20 border-4 border-white shadow-2xl cursor-pointer hover:bg-white/30 transition-all flex items-center justify-center"
               animate={{
                 scale: [1, 1.05, 1],
@@ -230,7 +194,7 @@ export default function ColorsQuiz() {
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.3 }}
-          className="grid grid-cols-2 gap-3 sm:gap-6 mb-3 sm:mb-8"
+          className={`grid ${options.length > 4 ? 'grid-cols-3 sm:grid-cols-4' : options.length === 3 ? 'grid-cols-3' : 'grid-cols-2'} gap-3 sm:gap-6 mb-3 sm:mb-8`}
         >
         {options.map((option, index) => {
           const isCorrectAnswer = feedback === 'correct' && option.id === targetColor?.id
@@ -249,7 +213,7 @@ export default function ColorsQuiz() {
                 rotate: isCorrectAnswer ? [0, -5, 5, 0] : 0,
               }}
               transition={{ delay: index * 0.1, duration: 0.4 }}
-              className={`relative w-24 h-24 sm:w-40 sm:h-40 rounded-2xl border-4 transition-all duration-200 ${
+              className={`relative ${options.length > 4 ? 'w-20 h-20 sm:w-32 sm:h-32' : 'w-24 h-24 sm:w-40 sm:h-40'} rounded-2xl border-4 transition-all duration-200 ${
                 isAnswering ? 'cursor-not-allowed' : 'cursor-pointer hover:scale-105'
               } ${isCorrectAnswer ? 'border-yellow-300 scale-110' : 'border-white/30'}`}
               style={{
@@ -276,73 +240,22 @@ export default function ColorsQuiz() {
               </motion.div>
             )}
 
+            {/* Nome da cor como dica nos níveis mais fáceis */}
+            {levelSettings.showNames && (
+              <span className="absolute bottom-1 left-1 right-1 rounded-lg bg-black/40 text-xs sm:text-base font-bold truncate">
+                {colorName(option)}
+              </span>
+            )}
 
             </motion.button>
             )
           })}
         </motion.div>
 
-        {/* Feedback de acerto/erro */}
-        {feedback && (
-          <motion.div
-            initial={{ opacity: 0, scale: 0.5 }}
-            animate={{ opacity: 1, scale: 1 }}
-            className={`text-center py-2 sm:py-4 px-4 sm:px-8 rounded-full text-sm sm:text-2xl font-bold ${
-              feedback === 'correct'
-                ? 'bg-green-500/80 text-white'
-                : 'bg-red-500/80 text-white'
-            }`}
-          >
-            {feedback === 'correct' ? (
-              <>
-                <span>🎉 {t('quiz.correct') || 'Parabéns!'} +10 pontos</span>
-              </>
-            ) : (
-              <>
-                <span>😅 {t('quiz.incorrect') || 'Errou!'}</span>
-              </>
-            )}
-          </motion.div>
-        )}
-
-        {/* Partículas de confete (acerto) */}
-        {showParticles && feedback === 'correct' && <Confetti count={Math.floor(35 * Math.pow(1.4, streak))} />}
+        {/* Feedback de acerto/erro e confete */}
+        <QuizFeedback feedback={feedback} showParticles={showParticles} streak={streak} />
       </div>
       </div>
     </>
   )
 }
-
-/**
- * Componente de confete/partículas para acerto
- * Quantidade aumenta com a sequência de acertos
- */
-function Confetti({ count = 35 }: { count?: number }) {
-  return (
-    <div className="fixed inset-0 pointer-events-none overflow-hidden">
-      {[...Array(count)].map((_, i) => (
-        <motion.div
-          key={i}
-          className="absolute w-2 h-2 rounded-full"
-          style={{
-            left: `${Math.random() * 100}%`,
-            top: '-10px',
-            backgroundColor: ['#FF6B6B', '#4ECDC4', '#FFE66D', '#95E1D3'][
-              Math.floor(Math.random() * 4)
-            ],
-          }}
-          initial={{ opacity: 1, y: 0 }}
-          animate={{
-            opacity: 0,
-            y: window.innerHeight + 100,
-            x: (Math.random() - 0.5) * 200,
-          }}
-          transition={{
-            duration: 2 + Math.random() * 1,
-            ease: 'easeOut',
-          }}
-        />
-      ))}
-    </div>
-  )
-}
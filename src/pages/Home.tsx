@@ -1,9 +1,20 @@
-import React from 'react'
+import React, { useSyncExternalStore } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Link } from 'react-router-dom'
 import { motion } from 'framer-motion'
 import logo from '../assets/logo.png'
 import SEO from '../components/SEO'
+import ProfilePicker from '../components/ProfilePicker'
+import { getWordsForLanguage, getItemText } from '../content'
+import { getCustomPacks, subscribeCustomPacks } from '../content/customPacks'
+import { useProfiles } from '../utils/profiles'
+
+// Cores alternadas para os botões dos temas instalados
+const CUSTOM_PACK_GRADIENTS = [
+  ['#F43F5E', 'linear-gradient(135deg, #F43F5E 0%, #F59E0B 100%)'],
+  ['#14B8A6', 'linear-gradient(135deg, #14B8A6 0%, #3B82F6 100%)'],
+  ['#A855F7', 'linear-gradient(135deg, #A855F7 0%, #EC4899 100%)'],
+]
 
 interface MenuButtonProps {
   to: string
@@ -132,7 +143,10 @@ const CategorySection: React.FC<{ category: MenuCategory; index: number }> = ({
 }
 
 export default function Home() {
-  const { t } = useTranslation()
+  const { t, i18n } = useTranslation()
+  const hasWordList = getWordsForLanguage(i18n.language).length > 0
+  const customPacks = useSyncExternalStore(subscribeCustomPacks, getCustomPacks)
+  const { loaded: profilesLoaded, chosen: profileChosen } = useProfiles()
 
   const categories: MenuCategory[] = [
     {
@@ -160,6 +174,17 @@ export default function Home() {
           color: '#3B82F6',
           gradient: 'linear-gradient(135deg, #3B82F6 0%, #8B5CF6 100%)',
         },
+        ...customPacks.map((pack, index) => {
+          const [color, gradient] = CUSTOM_PACK_GRADIENTS[index % CUSTOM_PACK_GRADIENTS.length]
+          return { to: `/topics/${pack.id}`, label: getItemText(pack.title, i18n.language), icon: pack.emoji, color, gradient }
+        }),
+        {
+          to: '/topics',
+          label: t('menu.topics'),
+          icon: '➕',
+          color: '#64748B',
+          gradient: 'linear-gradient(135deg, #64748B 0%, #8B5CF6 100%)',
+        },
       ]
     },
     {
@@ -174,12 +199,59 @@ export default function Home() {
           gradient: 'linear-gradient(135deg, #F59E0B 0%, #EC4899 100%)',
         },
         {
-          to: '/syllable-game',
-          label: t('menu.syllableGame'),
-          icon: '🔠',
-          color: '#8B5CF6',
-          gradient: 'linear-gradient(135deg, #8B5CF6 0%, #06B6D4 100%)',
+          to: '/numbers-quiz',
+          label: t('menu.numbersQuiz'),
+          icon: '🧮',
+          color: '#0EA5E9',
+          gradient: 'linear-gradient(135deg, #0EA5E9 0%, #8B5CF6 100%)',
+        },
+        {
+          to: '/letters-quiz',
+          label: t('menu.lettersQuiz'),
+          icon: '🔡',
+          color: '#F43F5E',
+          gradient: 'linear-gradient(135deg, #F43F5E 0%, #F59E0B 100%)',
+        },
+        {
+          to: '/memory',
+          label: t('menu.memory'),
+          icon: '🃏',
+          color: '#10B981',
+          gradient: 'linear-gradient(135deg, #10B981 0%, #0D9488 100%)',
         },
+        {
+          to: '/tracing',
+          label: t('menu.tracing'),
+          icon: '✏️',
+          color: '#A855F7',
+          gradient: 'linear-gradient(135deg, #A855F7 0%, #D946EF 100%)',
+        },
+        {
+          to: '/color-mixing',
+          label: t('menu.colorMixing'),
+          icon: '🖌️',
+          color: '#F43F5E',
+          gradient: 'linear-gradient(135deg, #FBBF24 0%, #F43F5E 100%)',
+        },
+        {
+          to: '/math',
+          label: t('menu.math'),
+          icon: '➕',
+          color: '#14B8A6',
+          gradient: 'linear-gradient(135deg, #14B8A6 0%, #4338CA 100%)',
+        },
+        // Jogo de sílabas só aparece em idiomas com lista de palavras
+        ...(hasWordList
+          ? [
+              {
+                to: '/syllable-game',
+                label: t('menu.syllableGame'),
+                icon: '🔠',
+                color: '#8B5CF6',
+                gradient: 'linear-gradient(135deg, #8B5CF6 0%, #06B6D4 100%)',
+              },
+            ]
+          : []),
       ]
     }
   ]
@@ -221,6 +293,9 @@ export default function Home() {
         ))}
       </div>
       </div>
+
+      {/* Quem vai jogar? (uma vez por sessão) */}
+      {profilesLoaded && !profileChosen && <ProfilePicker />}
     </>
   )
 }
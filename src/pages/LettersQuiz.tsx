@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { motion } from 'framer-motion'
+import { letters, words, getItemText, getAudioKey, getInitialLetter, type LearningItem, type WordItem } from '../content'
+import { getSpeechLang } from '../i18n/languages'
+import { speak } from '../utils/speak'
+import { getIconUrl } from '../utils/icons'
+import { pickNextItem } from '../utils/scheduler'
+import { useQuiz } from '../utils/quiz'
+import SEO from '../components/SEO'
+import NoVoiceNotice from '../components/NoVoiceNotice'
+import QuizHeader from '../components/QuizHeader'
+import QuizOptions from '../components/QuizOptions'
+import QuizFeedback from '../components/QuizFeedback'
+
+/**
+ * Modos do jogo
+ * - hear: ouvir uma letra e tocar nela
+ * - initial: ver a figura de uma palavra e escolher a letra com que ela começa no idioma atual
+ */
+type LettersQuizMode = 'hear' | 'initial'
+
+const OPTIONS_COUNT = 4
+
+const letterKey = (item: LearningItem) => getAudioKey('letters', item.id)
+const wordKey = (item: WordItem) => getAudioKey('words', item.id)
+const shuffle = <T,>(items: T[]): T[] => [...items].sort(() => Math.random() - 0.5)
+
+/**
+ * Página do Jogo das Letras
+ * Reconhecer letras pelo som e pela primeira letra das palavras de words.json
+ */
+export default function LettersQuiz() {
+  const { t, i18n } = useTranslation()
+  const { score, streak, feedback, isAnswering, showParticles, startRound, submitAnswer } = useQuiz(
+    'letters-quiz',
+    'lettersQuiz'
+  )
+  const [selectedMode, setSelectedMode] = useState<LettersQuizMode>('hear')
+  const [target, setTarget] = useState<LearningItem | null>(null)
+  // Palavra da rodada no modo "primeira letra"
+  const [word, setWord] = useState<WordItem | null>(null)
+  const [options, setOptions] = useState<LearningItem[]>([])
+
+  const langCode = getSpeechLang(i18n.language)
+  // Palavras que começam com uma letra de letters.json no idioma atual (nenhuma em japonês e chinês)
+  const wordsWithInitial = words.filter((item) => getInitialLetter(item, i18n.language))
+  const mode: LettersQuizMode = wordsWithInitial.length > 0 ? selectedMode : 'hear'
+
+  const sayLetter = (item: LearningItem) => speak(getItemText(item, i18n.language), langCode, letterKey(item))
+
+  const askQuestion = (letter: LearningItem, roundWord: WordItem | null) => {
+    if (roundWord) {
+      speak(t('lettersQuiz.initialSpoken', { word: getItemText(roundWord, i18n.language) }), langCode)
+    } else {
+      sayLetter(letter)
+    }
+  }
+
+  /**
+   * Gera uma nova rodada no modo informado
+   */
+  const generateNewQuiz = (roundMode: LettersQuizMode) => {
+    let nextTarget: LearningItem
+    let nextWord: WordItem | null = null
+
+    if (roundMode === 'initial') {
+      // A repetição espaçada escolhe a palavra, como no jogo de sílabas; a resposta é a letra inicial dela
+      nextWord = pickNextItem(wordsWithInitial, wordKey, i18n.language)
+      nextTarget = getInitialLetter(nextWord, i18n.language)!
+    } else {
+      nextTarget = pickNextItem(letters, letterKey, i18n.language)
+    }
+
+    setTarget(nextTarget)
+    setWord(nextWord)
+    startRound()
+
+    const distractors = shuffle(letters.filter((letter) => letter.id !== nextTarget.id)).slice(0, OPTIONS_COUNT - 1)
+    setOptions(shuffle([nextTarget, ...distractors]))
+
+    askQuestion(nextTarget, nextWord)
+  }
+
+  // Nova rodada ao abrir a página, ao trocar de modo e ao trocar de idioma (a primeira letra muda)
+  useEffect(() => {
+    generateNewQuiz(mode)
+  }, [mode, i18n.language])
+
+  /**
+   * Tratar resposta do usuário
+   */
+  const handleAnswerClick = (selected: LearningItem) => {
+    if (isAnswering || !target) return
+
+    submitAnswer({
+      // Na primeira letra o item é a palavra e a parte esperada é a letra (como as sílabas no jogo de sílabas)
+      itemKey: word ? wordKey(word) : letterKey(target),
+      correct: selected.id === target.id,
+      expected: word ? target.id : undefined,
+      chosen: word ? selected.id : letterKey(selected),
+      // Fala a letra tocada para a criança comparar
+      sayChosen: () => sayLetter(selected),
+      onNext: () => generateNewQuiz(mode),
+      // Mantém a mesma letra até acertar
+      onRetry: () => {
+        setOptions((prev) => shuffle(prev))
+        askQuestion(target, word)
+      },
+    })
+  }
+
+  return (
+    <>
+      <SEO
+        title={t('menu.lettersQuiz')}
+        description="Jogo das Letras - crianças ouvem uma letra e tocam nela, ou descobrem com que letra começa cada palavra. Com pontuação e áudio em 8 idiomas."
+        keywords="jogo de letras, alfabeto, primeira letra, educação infantil, aprender letras, alphabet game, kids learning"
+        path="/letters-quiz"
+      />
+      <div className="relative h-screen bg-gradient-to-b from-pink-500 to-orange-500 flex flex-col items-center justify-start p-3 sm:p-6 text-white overflow-hidden">
+      <QuizHeader score={score} streak={streak} />
+
+      {/* Conteúdo principal */}
+      <div className="flex flex-col items-center justify-center flex-1 w-full pt-20 sm:pt-24">
+        <motion.h1
+          initial={{ opacity: 0, scale: 0.8 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="text-2xl sm:text-4xl md:text-6xl font-bold mb-2 sm:mb-4 text-center"
+        >
+          {t('menu.lettersQuiz') || 'Jogo das Letras'}
+        </motion.h1>
+
+        {/* Troca de modo (só com palavras que começam com letras no idioma atual) */}
+        {wordsWithInitial.length > 0 && (
+          <div className="flex gap-2 mb-3 sm:mb-4">
+            {(['hear', 'initial'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setSelectedMode(option)}
+                disabled={isAnswering}
+                className={`px-3 sm:px-5 py-1 sm:py-2 rounded-full text-xs sm:text-base font-bold transition-all ${
+                  mode === option ? 'bg-white text-pink-600' : 'bg-white/20 hover:bg-white/30'
+                }`}
+              >
+                {option === 'hear'
+                  ? t('lettersQuiz.modeHear') || 'Ouvir a letra'
+                  : t('lettersQuiz.modeInitial') || 'Primeira letra'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Pergunta */}
+        {target && (
+          <motion.div
+            key={`${mode}-${target.id}-${word?.id}`}
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ type: 'spring', stiffness: 200 }}
+            className="mb-3 sm:mb-6 flex flex-col items-center text-center"
+          >
+            <p className="text-sm sm:text-2xl mb-2 sm:mb-4 opacity-90">
+              {word
+                ? t('lettersQuiz.initialQuestion') || 'Com que letra começa?'
+                : t('lettersQuiz.hearQuestion') || 'Ouça e toque na letra'}
+            </p>
+            <NoVoiceNotice className="mb-2 sm:mb-4" />
+
+            {/* Figura da palavra ou botão de som; os dois repetem a pergunta */}
+            <motion.button
+              onClick={() => askQuestion(target, word)}
+              className={`mx-auto rounded-full bg-white/20 border-4 border-white shadow-2xl hover:bg-white/30 transition-all flex items-center justify-center ${
+                word ? 'w-28 h-28 sm:w-40 sm:h-40' : 'w-16 h-16 sm:w-24 sm:h-24'
+              }`}
+              animate={{ scale: [1, 1.05, 1] }}
+              whileTap={{ scale: 0.95 }}
+              transition={{ duration: 2, repeat: Infinity, ease: 'easeOut' }}
+            >
+              {word ? (
+                <img src={getIconUrl(word.icon)} alt="" className="w-20 h-20 sm:w-32 sm:h-32" draggable={false} />
+              ) : (
+                <span className="text-3xl sm:text-5xl">🔊</span>
+              )}
+            </motion.button>
+          </motion.div>
+        )}
+
+        {/* Opções de letras */}
+        <QuizOptions
+          options={options}
+          getKey={(option) => option.id}
+          getLabel={(option) => getItemText(option, i18n.language)}
+          isTarget={(option) => option.id === target?.id}
+          feedback={feedback}
+          disabled={isAnswering}
+          onChoose={handleAnswerClick}
+          className="mb-3 sm:mb-8"
+        />
+
+        {/* Feedback de acerto/erro e confete */}
+        <QuizFeedback feedback={feedback} showParticles={showParticles} streak={streak} />
+      </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,289 @@
+import { useState, useEffect, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import { motion } from 'framer-motion'
+import { numbers, words, getItemText, getAudioKey } from '../content'
+import { getSpeechLang } from '../i18n/languages'
+import { speak, cancelSpeech } from '../utils/speak'
+import { wait } from '../utils/wait'
+import { getIconUrl } from '../utils/icons'
+import { playSound } from '../utils/sounds'
+import { useProfileState, useProfiles, useActiveProfile } from '../utils/profiles'
+import { useQuiz } from '../utils/quiz'
+import {
+  MATH_TIERS,
+  getInitialMathTier,
+  clampMathTier,
+  generateMathProblem,
+  buildAnswerOptions,
+  type MathProblem,
+} from '../utils/mathProblems'
+import SEO from '../components/SEO'
+import NoVoiceNotice from '../components/NoVoiceNotice'
+import QuizHeader from '../components/QuizHeader'
+import QuizOptions from '../components/QuizOptions'
+import QuizFeedback from '../components/QuizFeedback'
+
+// Quantidade de numerais para escolher
+const OPTIONS_COUNT = 4
+// Tempo de cada objeto na contagem da dica "mostre"
+const HINT_STEP_MS = 700
+
+const OPERATION_SYMBOLS = { plus: '+', minus: '−' }
+
+const numberKey = (value: number) => getAudioKey('numbers', String(value))
+const shuffle = <T,>(items: T[]): T[] => [...items].sort(() => Math.random() - 0.5)
+
+/**
+ * Página do Jogo de Matemática
+ * Somas e subtrações com grupos de objetos (ícones OpenMoji das palavras);
+ * a criança escolhe o numeral da resposta e pode pedir para o app contar os objetos
+ */
+export default function MathGame() {
+  const { t, i18n } = useTranslation()
+  const { loaded: profilesLoaded } = useProfiles()
+  const profile = useActiveProfile()
+  const { score, streak, feedback, isAnswering, showParticles, isMountedRef, startRound, submitAnswer } = useQuiz(
+    'math',
+    'math'
+  )
+  // null = perfil ainda sem nível salvo
+  const [storedTier, setTier] = useProfileState<number | null>('math.tier', null)
+  const tier = clampMathTier(storedTier ?? getInitialMathTier(profile?.ageBand))
+  const [problem, setProblem] = useState<MathProblem | null>(null)
+  const [objectIcon, setObjectIcon] = useState(words[0].icon)
+  const [options, setOptions] = useState<number[]>([])
+  // Dica "mostre": quantos objetos o app já contou
+  const [hintCount, setHintCount] = useState(0)
+  const [isHinting, setIsHinting] = useState(false)
+  const hintUsedRef = useRef(false)
+  // Muda a cada rodada para interromper uma contagem da dica em andamento
+  const roundRef = useRef(0)
+
+  const langCode = getSpeechLang(i18n.language)
+  // Números até 10 usam o nome de numbers.json; os maiores (nível até 20) são lidos como numeral
+  const numberName = (value: number) =>
+    value <= numbers.length ? getItemText(numbers[value - 1], i18n.language) : String(value)
+  const sayNumber = (value: number) =>
+    speak(numberName(value), langCode, value <= numbers.length ? numberKey(value) : undefined)
+
+  const problemText = (current: MathProblem) =>
+    t(`math.${current.operation}`, { a: numberName(current.a), b: numberName(current.b) })
+
+  const askQuestion = (current: MathProblem) => {
+    speak(problemText(current), langCode)
+  }
+
+  /**
+   * Gera uma nova conta no nível atual
+   */
+  const generateNewQuiz = () => {
+    const nextProblem = generateMathProblem(MATH_TIERS[tier])
+    roundRef.current += 1
+    setProblem(nextProblem)
+    setObjectIcon(words[Math.floor(Math.random() * words.length)].icon)
+    setOptions(buildAnswerOptions(nextProblem.answer, OPTIONS_COUNT, MATH_TIERS[tier].maxNumber))
+    setHintCount(0)
+    setIsHinting(false)
+    startRound()
+    hintUsedRef.current = false
+
+    askQuestion(nextProblem)
+  }
+
+  // O nível inicial depende da faixa de idade, que só existe depois que os perfis carregam do IndexedDB
+  useEffect(() => {
+    if (profilesLoaded && storedTier === null) setTier(getInitialMathTier(profile?.ageBand))
+  }, [profilesLoaded, profile?.id, storedTier])
+
+  // Nova conta ao abrir a página e ao trocar de nível
+  useEffect(() => {
+    generateNewQuiz()
+  }, [tier])
+
+  /**
+   * Dica "mostre": o app conta em voz alta os objetos que formam a resposta
+   * (na soma, os dois grupos; na subtração, os que sobram)
+   */
+  const showHint = async () => {
+    if (!problem || isHinting || isAnswering) return
+    const round = roundRef.current
+    hintUsedRef.current = true
+    setIsHinting(true)
+    cancelSpeech()
+
+    for (let count = 1; count <= problem.answer; count++) {
+      setHintCount(count)
+      playSound('tap')
+      await Promise.all([sayNumber(count), wait(HINT_STEP_MS)])
+      if (!isMountedRef.current || roundRef.current !== round) return
+    }
+    setIsHinting(false)
+  }
+
+  /**
+   * Confere o numeral escolhido
+   */
+  const checkAnswer = (chosen: number) => {
+    if (isAnswering || isHinting || !problem) return
+
+    submitAnswer({
+      itemKey: `math:${problem.a}${OPERATION_SYMBOLS[problem.operation]}${problem.b}`,
+      correct: chosen === problem.answer,
+      expected: numberKey(problem.answer),
+      chosen: numberKey(chosen),
+      // Usar a dica tira o "perfeito" da rodada
+      perfect: !hintUsedRef.current,
+      // Fala o número escolhido para a criança comparar
+      sayChosen: () => sayNumber(chosen),
+      onNext: generateNewQuiz,
+      // Mantém a mesma conta até acertar
+      onRetry: () => {
+        setOptions((prev) => shuffle(prev))
+        askQuestion(problem)
+      },
+    })
+  }
+
+  const totalObjects = problem ? (problem.operation === 'plus' ? problem.answer : problem.a) : 0
+  const objectSize =
+    totalObjects > 12 ? 'w-7 h-7 sm:w-12 sm:h-12' : totalObjects > 6 ? 'w-9 h-9 sm:w-14 sm:h-14' : 'w-12 h-12 sm:w-20 sm:h-20'
+
+  /**
+   * Um objeto da conta; countIndex é a posição dele na contagem da dica (null = não entra na conta)
+   */
+  const renderObject = (key: string, countIndex: number | null, crossed: boolean, delay: number) => {
+    const isCounted = countIndex !== null && countIndex < hintCount
+    return (
+      <motion.div
+        key={key}
+        initial={{ opacity: 0, scale: 0 }}
+        animate={{ opacity: crossed ? 0.4 : 1, scale: isCounted ? 1.1 : 1 }}
+        transition={{ delay }}
+        className={`relative p-1 rounded-xl ${isCounted ? 'ring-4 ring-yellow-300 bg-white/30' : ''}`}
+      >
+        <img src={getIconUrl(objectIcon)} alt="" className={objectSize} draggable={false} />
+        {crossed && (
+          <span className="absolute inset-0 flex items-center justify-center text-red-500 text-2xl sm:text-4xl font-bold">
+            ✖
+          </span>
+        )}
+        {isCounted && countIndex !== null && (
+          <span className="absolute -top-2 -right-2 w-5 h-5 sm:w-7 sm:h-7 rounded-full bg-yellow-300 text-violet-800 text-xs sm:text-base font-bold flex items-center justify-center">
+            {countIndex + 1}
+          </span>
+        )}
+      </motion.div>
+    )
+  }
+
+  return (
+    <>
+      <SEO
+        title={t('menu.math')}
+        description="Jogo de Matemática - crianças resolvem somas e subtrações até 10 e até 20 contando grupos de objetos e escolhem o numeral certo. Com dica de contagem e áudio."
+        keywords="jogo de matemática, soma, subtração, contas infantis, educação infantil, math game, addition, subtraction, kids learning"
+        path="/math"
+      />
+      <div className="relative h-screen bg-gradient-to-b from-teal-500 to-indigo-700 flex flex-col items-center justify-start p-3 sm:p-6 text-white overflow-hidden">
+      <QuizHeader score={score} streak={streak} />
+
+      {/* Conteúdo principal */}
+      <div className="flex flex-col items-center justify-center flex-1 w-full pt-20 sm:pt-24">
+        <motion.h1
+          initial={{ opacity: 0, scale: 0.8 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="text-2xl sm:text-4xl md:text-6xl font-bold mb-2 sm:mb-4 text-center"
+        >
+          {t('menu.math') || 'Matemática'}
+        </motion.h1>
+
+        {/* Troca de nível */}
+        <div className="flex flex-wrap justify-center gap-2 mb-3 sm:mb-4">
+          {MATH_TIERS.map((option, index) => (
+            <button
+              key={option.id}
+              onClick={() => setTier(index)}
+              disabled={isAnswering || isHinting}
+              className={`px-3 sm:px-5 py-1 sm:py-2 rounded-full text-xs sm:text-base font-bold transition-all ${
+                tier === index ? 'bg-white text-indigo-700' : 'bg-white/20 hover:bg-white/30'
+              }`}
+            >
+              {option.operations.map((operation) => OPERATION_SYMBOLS[operation]).join(' ')}{' '}
+              {t('math.upTo', { number: option.maxNumber })}
+            </button>
+          ))}
+        </div>
+
+        {/* Conta */}
+        {problem && (
+          <motion.button
+            key={`${problem.a}-${problem.operation}-${problem.b}`}
+            onClick={() => askQuestion(problem)}
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ type: 'spring', stiffness: 200 }}
+            className="mb-3 sm:mb-4 px-4 sm:px-8 py-2 sm:py-3 rounded-full bg-white/20 hover:bg-white/30 text-2xl sm:text-5xl font-bold"
+          >
+            🔊 {problem.a} {OPERATION_SYMBOLS[problem.operation]} {problem.b} = ?
+          </motion.button>
+        )}
+        <NoVoiceNotice className="mb-2 sm:mb-4" />
+
+        {/* Grupos de objetos */}
+        {problem && (
+          <div className="flex items-center justify-center gap-2 sm:gap-4 max-w-4xl mb-3 sm:mb-4">
+            {problem.operation === 'plus' ? (
+              <>
+                <div className="flex flex-wrap justify-center gap-1 sm:gap-2 p-2 rounded-2xl bg-white/10 max-w-xs sm:max-w-md">
+                  {Array.from({ length: problem.a }, (_, index) =>
+                    renderObject(`a-${index}`, index, false, index * 0.05),
+                  )}
+                </div>
+                <span className="text-3xl sm:text-6xl font-bold">+</span>
+                <div className="flex flex-wrap justify-center gap-1 sm:gap-2 p-2 rounded-2xl bg-white/10 max-w-xs sm:max-w-md">
+                  {Array.from({ length: problem.b }, (_, index) =>
+                    renderObject(`b-${index}`, problem.a + index, false, (problem.a + index) * 0.05),
+                  )}
+                </div>
+              </>
+            ) : (
+              // Subtração: os últimos objetos aparecem riscados (são os que saem)
+              <div className="flex flex-wrap justify-center gap-1 sm:gap-2 p-2 rounded-2xl bg-white/10 max-w-sm sm:max-w-2xl">
+                {Array.from({ length: problem.a }, (_, index) => {
+                  const crossed = index >= problem.answer
+                  return renderObject(`a-${index}`, crossed ? null : index, crossed, index * 0.05)
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Dica: contar os objetos */}
+        <motion.button
+          onClick={showHint}
+          disabled={isAnswering || isHinting}
+          className="mb-3 sm:mb-4 px-6 py-2 rounded-full bg-white/20 hover:bg-white/30 text-sm sm:text-xl font-bold disabled:opacity-50"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          👆 {t('math.showMe') || 'Mostre'}
+        </motion.button>
+
+        {/* Respostas */}
+        <QuizOptions
+          options={options}
+          getKey={(option) => option}
+          getLabel={(option) => option}
+          isTarget={(option) => option === problem?.answer}
+          feedback={feedback}
+          disabled={isAnswering || isHinting}
+          onChoose={checkAnswer}
+        />
+
+        {/* Feedback de acerto/erro e confete */}
+        <QuizFeedback feedback={feedback} showParticles={showParticles} streak={streak} />
+      </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,376 @@
+import { useState, useEffect, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { getSourceItems, getItemText, getAudioKey, type LearningItem, type ColorItem } from '../content'
+import { getSpeechLang } from '../i18n/languages'
+import { speak, enqueueSpeech, cancelSpeech } from '../utils/speak'
+import { wait } from '../utils/wait'
+import { vibrate } from '../utils/vibrate'
+import { getIconUrl } from '../utils/icons'
+import { playBackgroundMusic, stopBackgroundMusic, playCorrectSound, playSound } from '../utils/sounds'
+import { useProfileState } from '../utils/profiles'
+import { recordLearningEvent } from '../utils/learning'
+import { registerGame, takeBreakIfDue } from '../utils/screenTime'
+import { emitGameEvent } from '../utils/gameEvents'
+import {
+  MEMORY_SOURCES,
+  buildMemoryDeck,
+  getMemoryGrids,
+  getMemoryModes,
+  type MemoryCard,
+  type MemoryFace,
+  type MemoryMode,
+  type MemorySource,
+} from '../utils/memory'
+import SEO from '../components/SEO'
+import NoVoiceNotice from '../components/NoVoiceNotice'
+import Confetti from '../components/Confetti'
+
+interface MemorySetup {
+  source: MemorySource
+  mode: MemoryMode
+  /** Índice em getMemoryGrids */
+  grid: number
+}
+
+// Tempo que um par errado fica virado antes de desvirar
+const MISMATCH_VISIBLE_MS = 1000
+
+const SOURCE_ICONS: Record<MemorySource, string> = { words: '🖼️', letters: '🔤', numbers: '🔢', colors: '🎨' }
+const SOURCE_LABEL_KEYS: Record<MemorySource, string> = {
+  words: 'memory.words',
+  letters: 'menu.letters',
+  numbers: 'menu.numbers',
+  colors: 'menu.colors',
+}
+const GRID_COLS: Record<number, string> = { 2: 'grid-cols-2', 3: 'grid-cols-3', 4: 'grid-cols-4' }
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/**
+ * Jogo da Memória
+ * Cartas viradas com letras, números, cores ou palavras; cada carta virada é falada
+ * O tabuleiro terminado mostra as jogadas e o tempo
+ */
+export default function Memory() {
+  const { t, i18n } = useTranslation()
+  const navigate = useNavigate()
+  // Última escolha de cartas, pares e tamanho fica salva no perfil
+  const [setup, setSetup] = useProfileState<MemorySetup>('memory.setup', { source: 'words', mode: 'identical', grid: 1 })
+  const [phase, setPhase] = useState<'setup' | 'playing' | 'finished'>('setup')
+  const [cards, setCards] = useState<MemoryCard[]>([])
+  // Cartas viradas ainda sem par (no máximo duas) e itens já encontrados
+  const [flipped, setFlipped] = useState<number[]>([])
+  const [matched, setMatched] = useState<string[]>([])
+  const [moves, setMoves] = useState(0)
+  const [startedAt, setStartedAt] = useState<number | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const [isChecking, setIsChecking] = useState(false)
+  const isMountedRef = useRef(true)
+  // Para os eventos de aprendizado: tentativas de par de cada item no tabuleiro e quando a primeira carta do par virou
+  const pairAttemptsRef = useRef(new Map<string, number>())
+  const pairStartedAtRef = useRef(Date.now())
+
+  const langCode = getSpeechLang(i18n.language)
+  const items = getSourceItems(setup.source)
+  const modes = getMemoryModes(setup.source)
+  const grids = getMemoryGrids(items.length)
+  // Escolha salva pode não valer mais para o conjunto (ex: grade grande demais para as cores)
+  const mode = modes.includes(setup.mode) ? setup.mode : modes[0]
+  const grid = grids[Math.min(setup.grid, grids.length - 1)]
+  const itemsById = new Map(items.map((item) => [item.id, item]))
+
+  useEffect(() => {
+    isMountedRef.current = true
+    playBackgroundMusic()
+    const unregisterGame = registerGame()
+
+    return () => {
+      isMountedRef.current = false
+      unregisterGame()
+      stopBackgroundMusic()
+      cancelSpeech()
+    }
+  }, [])
+
+  // Relógio da partida: começa na primeira carta virada
+  useEffect(() => {
+    if (phase !== 'playing' || !startedAt) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [phase, startedAt])
+
+  const speakItem = (item: LearningItem) => speak(getItemText(item, i18n.language), langCode, getAudioKey(setup.source, item.id))
+
+  const startGame = () => {
+    setCards(buildMemoryDeck(items, setup.source, mode, grid))
+    setFlipped([])
+    setMatched([])
+    setMoves(0)
+    setStartedAt(null)
+    setIsChecking(false)
+    pairAttemptsRef.current = new Map()
+    setPhase('playing')
+  }
+
+  const playAgain = async () => {
+    // Entre um tabuleiro e outro: pausa se o tempo de tela acabou
+    await takeBreakIfDue()
+    if (!isMountedRef.current) return
+    startGame()
+  }
+
+  const handleCardClick = async (index: number) => {
+    const card = cards[index]
+    if (phase !== 'playing' || isChecking || flipped.includes(index) || matched.includes(card.itemId)) return
+
+    if (!startedAt) {
+      setStartedAt(Date.now())
+      setNow(Date.now())
+    }
+    vibrate(20)
+    speakItem(itemsById.get(card.itemId)!)
+
+    const nextFlipped = [...flipped, index]
+    setFlipped(nextFlipped)
+    if (nextFlipped.length < 2) {
+      pairStartedAtRef.current = Date.now()
+      return
+    }
+
+    const totalMoves = moves + 1
+    setMoves(totalMoves)
+    const [first, second] = nextFlipped.map((cardIndex) => cards[cardIndex])
+
+    // Cada tentativa de par conta como resposta para o item da primeira carta
+    const attempt = (pairAttemptsRef.current.get(first.itemId) ?? 0) + 1
+    pairAttemptsRef.current.set(first.itemId, attempt)
+    recordLearningEvent({
+      game: 'memory',
+      itemKey: getAudioKey(setup.source, first.itemId),
+      lang: i18n.language,
+      correct: first.itemId === second.itemId,
+      attempt,
+      responseTimeMs: Date.now() - pairStartedAtRef.current,
+      chosen: first.itemId === second.itemId ? undefined : getAudioKey(setup.source, second.itemId),
+    })
+
+    if (first.itemId === second.itemId) {
+      // ✅ Par encontrado
+      const nextMatched = [...matched, first.itemId]
+      setMatched(nextMatched)
+      setFlipped([])
+      vibrate([30, 50, 30])
+
+      if (nextMatched.length === cards.length / 2) {
+        playSound('streak')
+        // Na fila, depois do nome do último item
+        enqueueSpeech(t('memory.finished') || 'Você encontrou todos os pares!', langCode, getAudioKey('phrases', 'allPairsFound'))
+        setNow(Date.now())
+        setPhase('finished')
+        // Perfeito: nenhuma jogada além de uma por par
+        emitGameEvent({ type: 'round-completed', game: 'memory', perfect: totalMoves === nextMatched.length })
+      } else {
+        playCorrectSound()
+      }
+    } else {
+      // Par errado: mostra um pouco e desvira
+      setIsChecking(true)
+      await wait(MISMATCH_VISIBLE_MS)
+      if (!isMountedRef.current) return
+      setFlipped([])
+      setIsChecking(false)
+    }
+  }
+
+  const renderFace = (face: MemoryFace, item: LearningItem) => {
+    switch (face) {
+      case 'icon':
+        return <img src={getIconUrl(item.icon)} alt="" className="w-4/5 h-4/5" draggable={false} />
+      case 'text': {
+        const text = getItemText(item, i18n.language)
+        return (
+          <span className={`font-bold text-slate-800 px-1 break-words ${text.length > 6 ? 'text-sm sm:text-xl' : 'text-2xl sm:text-4xl'}`}>
+            {text}
+          </span>
+        )
+      }
+      case 'numeral':
+        return <span className="font-bold text-slate-800 text-3xl sm:text-6xl">{item.id}</span>
+      case 'quantity':
+        return (
+          <span className="flex flex-wrap justify-center content-center gap-1 p-1 sm:p-2 w-full h-full">
+            {Array.from({ length: Number(item.id) }, (_, dot) => (
+              <span key={dot} className="w-2 h-2 sm:w-4 sm:h-4 rounded-full bg-blue-500" />
+            ))}
+          </span>
+        )
+      case 'swatch':
+        return <span className="w-4/5 h-4/5 rounded-xl border-2 border-slate-300" style={{ backgroundColor: (item as ColorItem).color }} />
+    }
+  }
+
+  const elapsed = startedAt ? now - startedAt : 0
+  const optionClass = (selected: boolean) =>
+    `px-3 sm:px-5 py-2 rounded-full text-sm sm:text-lg font-bold transition-all ${
+      selected ? 'bg-white text-emerald-700 shadow-lg' : 'bg-white/20 hover:bg-white/30'
+    }`
+
+  return (
+    <>
+      <SEO
+        title={t('menu.memory')}
+        description="Jogo da Memória - crianças encontram pares de letras, números, cores e palavras, com figura e palavra, número e quantidade e cor e nome. Cada carta é falada em voz alta."
+        keywords="jogo da memória, pares, educação infantil, memória, memory game, matching pairs, kids learning"
+        path="/memory"
+      />
+      <div className="relative h-screen bg-gradient-to-b from-emerald-500 to-teal-700 flex flex-col items-center justify-start p-3 sm:p-6 text-white overflow-hidden">
+      {/* Header com Voltar, jogadas e tempo */}
+      <div className="absolute top-0 left-0 right-0 px-3 sm:px-6 py-3 sm:py-4 flex items-center justify-between z-10 w-full bg-gradient-to-b from-black/10 to-transparent">
+        <motion.button
+          onClick={() => (phase === 'setup' ? navigate('/') : setPhase('setup'))}
+          className="px-3 sm:px-6 py-1 sm:py-2 bg-white/20 rounded-full hover:bg-white/30 transition-all text-xs sm:text-lg font-bold"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          ← {t('common.back') || 'Voltar'}
+        </motion.button>
+
+        {phase !== 'setup' && (
+          <div className="flex gap-4 sm:gap-8 text-center">
+            <div>
+              <p className="text-xs sm:text-sm opacity-75">{t('memory.moves') || 'Jogadas'}</p>
+              <p className="text-2xl sm:text-4xl font-bold">{moves}</p>
+            </div>
+            <div>
+              <p className="text-xs sm:text-sm opacity-75">{t('memory.time') || 'Tempo'}</p>
+              <p className="text-2xl sm:text-4xl font-bold tabular-nums">{formatTime(elapsed)}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col items-center justify-center flex-1 w-full pt-16 sm:pt-20">
+        <h1 className="text-2xl sm:text-4xl md:text-6xl font-bold mb-2 sm:mb-4 text-center">{t('menu.memory') || 'Jogo da Memória'}</h1>
+        <NoVoiceNotice className="mb-2 sm:mb-4" />
+
+        {/* Escolha das cartas, dos pares e do tamanho */}
+        {phase === 'setup' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="flex flex-col items-center gap-4 sm:gap-6 w-full max-w-2xl"
+          >
+            <div className="flex flex-col items-center gap-2">
+              <p className="font-bold opacity-90">{t('memory.source') || 'Cartas'}</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {MEMORY_SOURCES.map((source) => (
+                  <button key={source} onClick={() => setSetup({ ...setup, source })} className={optionClass(setup.source === source)}>
+                    {SOURCE_ICONS[source]} {t(SOURCE_LABEL_KEYS[source])}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col items-center gap-2">
+              <p className="font-bold opacity-90">{t('memory.mode') || 'Pares'}</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {modes.map((option) => (
+                  <button key={option} onClick={() => setSetup({ ...setup, mode: option })} className={optionClass(mode === option)}>
+                    {t(`memory.modes.${option}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col items-center gap-2">
+              <p className="font-bold opacity-90">{t('memory.grid') || 'Tamanho'}</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {grids.map((option, index) => (
+                  <button key={index} onClick={() => setSetup({ ...setup, grid: index })} className={optionClass(grid === option)}>
+                    {option.cols}×{option.rows}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <motion.button
+              onClick={startGame}
+              className="mt-2 px-10 py-3 rounded-full bg-yellow-400 text-emerald-900 text-xl sm:text-2xl font-bold shadow-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              ▶️ {t('memory.start') || 'Começar'}
+            </motion.button>
+          </motion.div>
+        )}
+
+        {/* Tabuleiro */}
+        {phase !== 'setup' && (
+          <div
+            className={`grid ${GRID_COLS[grid.cols]} gap-2 sm:gap-3 w-full`}
+            style={{ maxWidth: `min(94vw, ${(grid.cols / grid.rows) * 68}vh)` }}
+          >
+            {cards.map((card, index) => {
+              const item = itemsById.get(card.itemId)!
+              const isMatched = matched.includes(card.itemId)
+              const isFaceUp = isMatched || flipped.includes(index)
+
+              return (
+                <motion.button
+                  key={card.id}
+                  onClick={() => handleCardClick(index)}
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  animate={{ opacity: 1, scale: isMatched ? [1, 1.08, 1] : 1, rotateY: isFaceUp ? 0 : 180 }}
+                  transition={{ duration: 0.3 }}
+                  className={`aspect-square rounded-2xl border-4 flex items-center justify-center overflow-hidden shadow-lg ${
+                    isFaceUp ? 'bg-white' : 'bg-gradient-to-br from-yellow-300 to-orange-400 cursor-pointer'
+                  } ${isMatched ? 'border-yellow-300' : 'border-white/40'}`}
+                >
+                  {isFaceUp ? (
+                    renderFace(card.face, item)
+                  ) : (
+                    <span className="inline-block text-3xl sm:text-5xl" style={{ transform: 'rotateY(180deg)' }}>❓</span>
+                  )}
+                </motion.button>
+              )
+            })}
+          </div>
+        )}
+
+        {/* Tabuleiro terminado: jogadas e tempo */}
+        {phase === 'finished' && (
+          <>
+            <Confetti count={60} />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.5 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="fixed inset-0 z-20 flex items-center justify-center bg-black/40 p-4"
+            >
+              <div className="flex flex-col items-center gap-3 px-8 py-6 rounded-3xl bg-white text-slate-900 shadow-2xl text-center">
+                <p className="text-4xl">🎉</p>
+                <p className="text-2xl font-bold">{t('memory.finished') || 'Você encontrou todos os pares!'}</p>
+                <p className="text-lg font-semibold">
+                  {t('memory.result', { moves, time: formatTime(elapsed) })}
+                </p>
+                <div className="flex flex-wrap justify-center gap-2 mt-2">
+                  <button onClick={playAgain} className="px-6 py-2 rounded-full bg-emerald-500 text-white font-bold">
+                    🔄 {t('memory.playAgain') || 'Jogar de novo'}
+                  </button>
+                  <button onClick={() => setPhase('setup')} className="px-6 py-2 rounded-full bg-slate-200 font-bold">
+                    🃏 {t('memory.change') || 'Trocar cartas'}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </>
+        )}
+      </div>
+      </div>
+    </>
+  )
+}
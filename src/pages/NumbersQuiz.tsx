@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { motion } from 'framer-motion'
+import { numbers, words, getItemText, getAudioKey, type LearningItem } from '../content'
+import { getSpeechLang } from '../i18n/languages'
+import { speak } from '../utils/speak'
+import { vibrate } from '../utils/vibrate'
+import { getIconUrl } from '../utils/icons'
+import { playSound } from '../utils/sounds'
+import { pickNextItem } from '../utils/scheduler'
+import { useQuiz } from '../utils/quiz'
+import SEO from '../components/SEO'
+import NoVoiceNotice from '../components/NoVoiceNotice'
+import QuizHeader from '../components/QuizHeader'
+import QuizOptions from '../components/QuizOptions'
+import QuizFeedback from '../components/QuizFeedback'
+
+/**
+ * Modos do jogo
+ * - howMany: o app mostra os objetos e a criança escolhe o numeral
+ * - showMe: o app pede um número e a criança toca os objetos contando
+ */
+type NumbersQuizMode = 'howMany' | 'showMe'
+
+// Quantidade de numerais para escolher no modo "quantos?"
+const OPTIONS_COUNT = 4
+// Objetos a mais no modo "mostre", para a criança ter que parar na hora certa
+const EXTRA_OBJECTS = 3
+
+const numberKey = (item: LearningItem) => getAudioKey('numbers', item.id)
+const shuffle = <T,>(items: T[]): T[] => [...items].sort(() => Math.random() - 0.5)
+
+/**
+ * Página do Jogo dos Números
+ * Contagem de objetos (ícones OpenMoji das palavras) nos dois sentidos:
+ * quantos objetos há na tela e mostrar uma quantidade tocando nos objetos
+ */
+export default function NumbersQuiz() {
+  const { t, i18n } = useTranslation()
+  const { score, streak, feedback, isAnswering, showParticles, startRound, submitAnswer } = useQuiz(
+    'numbers-quiz',
+    'numbersQuiz'
+  )
+  const [mode, setMode] = useState<NumbersQuizMode>('howMany')
+  const [target, setTarget] = useState<LearningItem | null>(null)
+  // Ícone dos objetos da rodada e quantos aparecem na tela
+  const [objectIcon, setObjectIcon] = useState(words[0].icon)
+  const [objectCount, setObjectCount] = useState(0)
+  const [options, setOptions] = useState<LearningItem[]>([])
+  // Modo "mostre": quantos objetos a criança já contou (os primeiros tocados ficam marcados)
+  const [counted, setCounted] = useState<number[]>([])
+
+  const langCode = getSpeechLang(i18n.language)
+  const numberName = (item: LearningItem) => getItemText(item, i18n.language)
+  const sayNumber = (item: LearningItem) => speak(numberName(item), langCode, numberKey(item))
+
+  const askQuestion = (item: LearningItem, roundMode: NumbersQuizMode) => {
+    if (roundMode === 'howMany') {
+      speak(t('numbersQuiz.howMany') || 'Quantos?', langCode, getAudioKey('phrases', 'howMany'))
+    } else {
+      speak(t('numbersQuiz.showMe', { number: numberName(item) }), langCode)
+    }
+  }
+
+  /**
+   * Gera uma nova rodada no modo informado
+   */
+  const generateNewQuiz = (roundMode: NumbersQuizMode) => {
+    // Número escolhido pela repetição espaçada, como nos outros jogos
+    const nextTarget = pickNextItem(numbers, numberKey, i18n.language)
+    setTarget(nextTarget)
+    setObjectIcon(words[Math.floor(Math.random() * words.length)].icon)
+    setCounted([])
+    startRound()
+
+    if (roundMode === 'howMany') {
+      setObjectCount(Number(nextTarget.id))
+      const distractors = shuffle(numbers.filter((item) => item.id !== nextTarget.id)).slice(0, OPTIONS_COUNT - 1)
+      setOptions(shuffle([nextTarget, ...distractors]))
+    } else {
+      setObjectCount(Math.min(Number(nextTarget.id) + EXTRA_OBJECTS, numbers.length))
+      setOptions([])
+    }
+
+    askQuestion(nextTarget, roundMode)
+  }
+
+  // Nova rodada ao abrir a página e ao trocar de modo
+  useEffect(() => {
+    generateNewQuiz(mode)
+  }, [mode])
+
+  /**
+   * Confere a resposta: o numeral escolhido ou a quantidade contada
+   */
+  const checkAnswer = (chosen: LearningItem | undefined) => {
+    if (isAnswering || !target) return
+
+    submitAnswer({
+      itemKey: numberKey(target),
+      correct: chosen?.id === target.id,
+      chosen: chosen ? numberKey(chosen) : undefined,
+      // Fala o número escolhido/contado para a criança comparar
+      sayChosen: chosen ? () => sayNumber(chosen) : undefined,
+      onNext: () => generateNewQuiz(mode),
+      // Mantém o mesmo número até acertar
+      onRetry: () => {
+        setCounted([])
+        if (mode === 'howMany') setOptions((prev) => shuffle(prev))
+        askQuestion(target, mode)
+      },
+    })
+  }
+
+  /**
+   * Modo "mostre": cada objeto tocado é contado em voz alta
+   */
+  const handleObjectClick = (index: number) => {
+    if (mode !== 'showMe' || isAnswering || counted.includes(index)) return
+    const count = counted.length + 1
+    setCounted([...counted, index])
+    playSound('tap')
+    vibrate(20)
+    sayNumber(numbers[count - 1])
+  }
+
+  const objectSize = objectCount > 6 ? 'w-12 h-12 sm:w-20 sm:h-20' : 'w-16 h-16 sm:w-24 sm:h-24'
+
+  return (
+    <>
+      <SEO
+        title={t('menu.numbersQuiz')}
+        description="Jogo dos Números - crianças contam objetos e escolhem o numeral certo, ou mostram uma quantidade tocando nos objetos. Com pontuação e áudio."
+        keywords="jogo de números, contar objetos, educação infantil, aprender números, counting game, kids learning"
+        path="/numbers-quiz"
+      />
+      <div className="relative h-screen bg-gradient-to-b from-blue-500 to-violet-700 flex flex-col items-center justify-start p-3 sm:p-6 text-white overflow-hidden">
+      <QuizHeader score={score} streak={streak} />
+
+      {/* Conteúdo principal */}
+      <div className="flex flex-col items-center justify-center flex-1 w-full pt-20 sm:pt-24">
+        <motion.h1
+          initial={{ opacity: 0, scale: 0.8 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="text-2xl sm:text-4xl md:text-6xl font-bold mb-2 sm:mb-4 text-center"
+        >
+          {t('menu.numbersQuiz') || 'Jogo dos Números'}
+        </motion.h1>
+
+        {/* Troca de modo */}
+        <div className="flex gap-2 mb-3 sm:mb-4">
+          {(['howMany', 'showMe'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              disabled={isAnswering}
+              className={`px-3 sm:px-5 py-1 sm:py-2 rounded-full text-xs sm:text-base font-bold transition-all ${
+                mode === option ? 'bg-white text-violet-700' : 'bg-white/20 hover:bg-white/30'
+              }`}
+            >
+              {option === 'howMany'
+                ? t('numbersQuiz.modeHowMany') || 'Quantos são?'
+                : t('numbersQuiz.modeShowMe') || 'Mostre o número'}
+            </button>
+          ))}
+        </div>
+
+        {/* Pergunta */}
+        {target && (
+          <motion.button
+            key={`${mode}-${target.id}`}
+            onClick={() => askQuestion(target, mode)}
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ type: 'spring', stiffness: 200 }}
+            className="mb-3 sm:mb-6 px-4 sm:px-8 py-2 sm:py-3 rounded-full bg-white/20 hover:bg-white/30 text-lg sm:text-3xl font-bold"
+          >
+            🔊 {mode === 'howMany'
+              ? t('numbersQuiz.howMany') || 'Quantos?'
+              : t('numbersQuiz.showMe', { number: numberName(target) })}
+          </motion.button>
+        )}
+        <NoVoiceNotice className="mb-2 sm:mb-4" />
+
+        {/* Objetos para contar */}
+        <div className="flex flex-wrap justify-center gap-2 sm:gap-4 max-w-2xl mb-3 sm:mb-6">
+          {Array.from({ length: objectCount }, (_, index) => {
+            const countedAt = counted.indexOf(index)
+            return (
+              <motion.button
+                key={`${target?.id}-${objectIcon}-${index}`}
+                onClick={() => handleObjectClick(index)}
+                disabled={mode !== 'showMe' || isAnswering}
+                initial={{ opacity: 0, scale: 0 }}
+                animate={{ opacity: 1, scale: countedAt >= 0 ? 0.85 : 1 }}
+                transition={{ delay: index * 0.05 }}
+                className={`relative p-1 sm:p-2 rounded-2xl ${
+                  mode === 'showMe' ? 'bg-white/10 cursor-pointer' : 'cursor-default'
+                } ${countedAt >= 0 ? 'ring-4 ring-yellow-300 bg-white/30' : ''}`}
+              >
+                <img src={getIconUrl(objectIcon)} alt="" className={objectSize} draggable={false} />
+                {countedAt >= 0 && (
+                  <span className="absolute -top-2 -right-2 w-6 h-6 sm:w-8 sm:h-8 rounded-full bg-yellow-300 text-violet-800 text-sm sm:text-lg font-bold flex items-center justify-center">
+                    {countedAt + 1}
+                  </span>
+                )}
+              </motion.button>
+            )
+          })}
+        </div>
+
+        {/* Respostas */}
+        {mode === 'howMany' ? (
+          <QuizOptions
+            options={options}
+            getKey={(option) => option.id}
+            getLabel={(option) => option.id}
+            isTarget={(option) => option.id === target?.id}
+            feedback={feedback}
+            disabled={isAnswering}
+            onChoose={checkAnswer}
+          />
+        ) : (
+          <motion.button
+            onClick={() => checkAnswer(numbers[counted.length - 1])}
+            disabled={isAnswering || counted.length === 0}
+            className="mb-3 sm:mb-6 px-8 py-3 rounded-full bg-green-500 text-lg sm:text-2xl font-bold shadow-xl disabled:opacity-50"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            ✔️ {t('numbersQuiz.done') || 'Pronto!'}
+          </motion.button>
+        )}
+
+        {/* Feedback de acerto/erro e confete */}
+        <QuizFeedback feedback={feedback} showParticles={showParticles} streak={streak} />
+      </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import SEO from '../components/SEO'
+import GrownUpGate from '../components/GrownUpGate'
+import BarChart from '../components/BarChart'
+import { getItemByKey, getItemText } from '../content'
+import { LANGUAGE_LABELS } from '../i18n/languages'
+import { useProfiles } from '../utils/profiles'
+import { useSettings, updateSettings } from '../utils/settings'
+import { useScreenTime } from '../utils/screenTime'
+import { loadLearningEvents, type LearningEvent } from '../utils/learning'
+import { getLastDays, getPlayMinutesPerDay, getBestStreakPerDay, getAccuracyByGame, getWeakestItems } from '../utils/progress'
+
+// Nome de cada jogo nos eventos de aprendizado
+const GAME_LABEL_KEYS: Record<string, string> = {
+  'colors-quiz': 'menu.colorsQuiz',
+  'syllable-game': 'menu.syllableGame',
+  'numbers-quiz': 'menu.numbersQuiz',
+  'letters-quiz': 'menu.lettersQuiz',
+  'memory': 'menu.memory',
+  'math': 'menu.math',
+}
+
+const DAYS_SHOWN = 7
+const WEAKEST_SHOWN = 6
+// Opções de limite em minutos (0 = sem limite)
+const DAILY_LIMIT_OPTIONS = [0, 15, 30, 45, 60, 90, 120]
+const SESSION_LIMIT_OPTIONS = [0, 5, 10, 15, 20, 30, 45]
+
+/**
+ * Painel dos pais: o que cada criança praticou, protegido pela pergunta de adulto
+ * Tudo é calculado no aparelho a partir dos eventos de aprendizado
+ */
+export default function Parents() {
+  const { t, i18n } = useTranslation()
+  const navigate = useNavigate()
+  const { profiles, activeId } = useProfiles()
+  const [isUnlocked, setIsUnlocked] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(activeId)
+  const [events, setEvents] = useState<LearningEvent[]>([])
+  const settings = useSettings()
+  const screenTime = useScreenTime()
+
+  useEffect(() => {
+    if (!isUnlocked) return
+    let active = true
+    loadLearningEvents(selectedId)
+      .then((loaded) => active && setEvents(loaded))
+      .catch((error) => console.warn('Erro ao carregar progresso:', error))
+    return () => {
+      active = false
+    }
+  }, [isUnlocked, selectedId])
+
+  const days = getLastDays(DAYS_SHOWN)
+  const dayLabel = (day: string) => new Date(`${day}T00:00`).toLocaleDateString(i18n.language, { weekday: 'short' })
+  const keyLabel = (key: string, lang: string) => {
+    const item = getItemByKey(key)
+    // Chaves sem item nos dados (ex: contas do jogo de matemática, 'math:2+3') mostram só o id
+    return item ? getItemText(item, lang) : key.slice(key.indexOf(':') + 1)
+  }
+
+  const limitLabel = (minutes: number) => (minutes === 0 ? t('parents.noLimit') || 'Sem limite' : `${minutes} min`)
+
+  const limits = [
+    { key: 'dailyLimitMinutes', label: t('parents.dailyLimit') || 'Por dia', options: DAILY_LIMIT_OPTIONS },
+    { key: 'sessionLimitMinutes', label: t('parents.sessionLimit') || 'Por sessão', options: SESSION_LIMIT_OPTIONS },
+  ] as const
+
+  const children = [
+    ...profiles.map((profile) => ({ id: profile.id as string | null, label: `${profile.avatar} ${profile.name}` })),
+    // O convidado só tem dados da sessão atual
+    ...(activeId === null ? [{ id: null, label: `👤 ${t('profiles.guest') || 'Jogar sem perfil'}` }] : []),
+  ]
+
+  const sections = [
+    {
+      title: `⏱️ ${t('parents.playTime') || 'Tempo jogado por dia (minutos)'}`,
+      content: (
+        <BarChart
+          bars={getPlayMinutesPerDay(events, days).map(({ day, value }) => ({ label: dayLabel(day), value }))}
+          formatValue={(value) => String(Math.max(1, Math.round(value)))}
+        />
+      ),
+    },
+    {
+      title: `🎯 ${t('parents.accuracy') || 'Acertos de primeira por jogo'}`,
+      content: (
+        <div className="flex flex-col gap-2">
+          {getAccuracyByGame(events).map(({ game, answers, accuracy }) => (
+            <div key={game} className="flex flex-col gap-1">
+              <span className="flex justify-between text-sm font-semibold">
+                <span>{GAME_LABEL_KEYS[game] ? t(GAME_LABEL_KEYS[game]) : game}</span>
+                <span className="text-gray-300">
+                  {Math.round(accuracy * 100)}% · {t('parents.answers', { count: answers })}
+                </span>
+              </span>
+              <div className="h-3 rounded-full bg-slate-700 overflow-hidden">
+                <motion.div
+                  className="h-full bg-green-500"
+                  initial={{ width: 0 }}
+                  animate={{ width: `${accuracy * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ),
+    },
+    {
+      title: `🧩 ${t('parents.weakest') || 'Itens para praticar'}`,
+      content: (
+        <ul className="flex flex-col gap-2">
+          {getWeakestItems(events, WEAKEST_SHOWN).map((mastery) => (
+            <li key={`${mastery.lang}:${mastery.itemKey}`} className="flex flex-col text-sm">
+              <span className="flex justify-between font-semibold">
+                <span>
+                  {LANGUAGE_LABELS[mastery.lang].flag} {keyLabel(mastery.itemKey, mastery.lang)}
+                </span>
+                <span className="text-gray-300">{Math.round(mastery.recentAccuracy * 100)}%</span>
+              </span>
+              {mastery.confusions.length > 0 && (
+                <span className="text-gray-400">
+                  {t('parents.confuses', {
+                    items: mastery.confusions
+                      .slice(0, 3)
+                      .map(({ chosen }) => keyLabel(chosen, mastery.lang))
+                      .join(', '),
+                  })}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ),
+    },
+    {
+      title: `🔥 ${t('parents.streaks') || 'Maior sequência de acertos por dia'}`,
+      content: (
+        <BarChart
+          bars={getBestStreakPerDay(events, days).map(({ day, value }) => ({ label: dayLabel(day), value }))}
+          barClassName="bg-yellow-400"
+        />
+      ),
+    },
+  ]
+
+  return (
+    <>
+      <SEO
+        title={t('menu.parents')}
+        description={t('menu.parents') + ' - ' + t('home.subtitle')}
+        path="/parents"
+      />
+      <div className="w-full h-full overflow-auto p-3 md:p-6">
+        {!isUnlocked ? (
+          <div className="h-full flex items-center">
+            <GrownUpGate onUnlock={() => setIsUnlocked(true)} onCancel={() => navigate('/')} />
+          </div>
+        ) : (
+          <div className="max-w-2xl mx-auto flex flex-col gap-4 md:gap-6">
+            <h1 className="text-2xl md:text-4xl font-bold">👪 {t('parents.title') || 'Progresso das crianças'}</h1>
+
+            {/* Tempo de tela (vale para o aparelho todo) */}
+            <section className="flex flex-col gap-3 px-4 py-3 rounded-2xl bg-slate-800/80 border border-slate-700">
+              <h2 className="font-bold">⏳ {t('parents.screenTime') || 'Tempo de tela'}</h2>
+              <div className="grid grid-cols-2 gap-3">
+                {limits.map((limit) => (
+                  <label key={limit.key} className="flex flex-col gap-1 text-sm font-semibold">
+                    {limit.label}
+                    <select
+                      value={settings[limit.key]}
+                      onChange={(event) => updateSettings({ [limit.key]: Number(event.target.value) })}
+                      className="px-3 py-2 rounded-lg bg-slate-700 text-white"
+                    >
+                      {limit.options.map((minutes) => (
+                        <option key={minutes} value={minutes}>
+                          {limitLabel(minutes)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <p className="text-sm text-gray-300">
+                {t('parents.usedToday', { minutes: Math.floor(screenTime.usedMs / 60_000) })}
+              </p>
+            </section>
+
+            <div className="flex flex-wrap gap-2">
+              {children.map((child) => (
+                <button
+                  key={child.id ?? 'guest'}
+                  onClick={() => setSelectedId(child.id)}
+                  className={`px-4 py-2 rounded-full font-bold ${child.id === selectedId ? 'bg-purple-600' : 'bg-slate-700 hover:bg-slate-600'}`}
+                  aria-pressed={child.id === selectedId}
+                >
+                  {child.label}
+                </button>
+              ))}
+            </div>
+
+            {events.length === 0 ? (
+              <p className="text-gray-300">{t('parents.empty') || 'Ainda não há jogadas registradas.'}</p>
+            ) : (
+              sections.map((section, index) => (
+                <motion.section
+                  key={section.title}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="flex flex-col gap-3 px-4 py-3 rounded-2xl bg-slate-800/80 border border-slate-700"
+                >
+                  <h2 className="font-bold">{section.title}</h2>
+                  {section.content}
+                </motion.section>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,225 @@
+import React, { useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Link } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import SEO from '../components/SEO'
+import { useSettings, updateSettings, resetSettings, type Settings as SettingsValues } from '../utils/settings'
+import { playSound } from '../utils/sounds'
+import { speak, useVoices, getVoicesForLanguage } from '../utils/speak'
+import { vibrate, VIBRATION_PATTERNS } from '../utils/vibrate'
+import { getSpeechLang, toLanguageCode } from '../i18n/languages'
+import NoVoiceNotice from '../components/NoVoiceNotice'
+import BackupPanel from '../components/BackupPanel'
+import { useRecordingIds, exportRecordings, importRecordings, RecordingsFileError } from '../utils/recordings'
+
+type NumericSetting = Exclude<keyof SettingsValues, 'vibration' | 'voices' | 'dailyLimitMinutes' | 'sessionLimitMinutes'>
+
+interface SliderConfig {
+  key: NumericSetting
+  icon: string
+  label: string
+  min: number
+  max: number
+  step: number
+  /** Ação para ouvir o resultado ao soltar o controle */
+  preview?: () => void
+}
+
+/**
+ * Configurações de áudio, fala e vibração
+ * As mudanças valem na hora e ficam salvas no dispositivo
+ */
+export default function Settings() {
+  const { t, i18n } = useTranslation()
+  const settings = useSettings()
+  const lang = toLanguageCode(i18n.language)
+  const langCode = getSpeechLang(lang)
+  const { voices } = useVoices()
+  const languageVoices = getVoicesForLanguage(langCode, voices)
+  const recordingIds = useRecordingIds()
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [recordingsMessage, setRecordingsMessage] = useState<string | null>(null)
+
+  const previewSpeech = () => speak(t('settings.speechSample') || 'Olá!', langCode)
+
+  const sliders: SliderConfig[] = [
+    { key: 'musicVolume', icon: '🎵', label: t('settings.musicVolume') || 'Música', min: 0, max: 1, step: 0.05 },
+    { key: 'effectsVolume', icon: '🔔', label: t('settings.effectsVolume') || 'Efeitos sonoros', min: 0, max: 1, step: 0.05, preview: () => playSound('correct') },
+    { key: 'speechVolume', icon: '🗣️', label: t('settings.speechVolume') || 'Volume da voz', min: 0, max: 1, step: 0.05, preview: previewSpeech },
+    { key: 'speechRate', icon: '🐢', label: t('settings.speechRate') || 'Velocidade da voz', min: 0.5, max: 1.5, step: 0.05, preview: previewSpeech },
+    { key: 'speechPitch', icon: '🎚️', label: t('settings.speechPitch') || 'Tom da voz', min: 0.5, max: 2, step: 0.1, preview: previewSpeech },
+  ]
+
+  const selectVoice = (voiceURI: string) => {
+    const { [lang]: _previous, ...otherVoices } = settings.voices
+    updateSettings({ voices: voiceURI ? { ...otherVoices, [lang]: voiceURI } : otherVoices })
+    previewSpeech()
+  }
+
+  const recordingsError = (error: unknown) =>
+    '❌ ' +
+    (error instanceof RecordingsFileError
+      ? t(`recordings.errors.${error.code}`)
+      : t('recordings.errors.unexpected', { error: (error as Error).message }))
+
+  const handleExportRecordings = async () => {
+    try {
+      const url = URL.createObjectURL(await exportRecordings())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = 'aprendeplay-gravacoes.json'
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      setRecordingsMessage(recordingsError(error))
+    }
+  }
+
+  const handleImportRecordings = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const count = await importRecordings(file)
+      setRecordingsMessage('✅ ' + t('recordings.imported', { count }))
+    } catch (error) {
+      setRecordingsMessage(recordingsError(error))
+    }
+  }
+
+  const toggleVibration = () => {
+    const enabled = !settings.vibration
+    updateSettings({ vibration: enabled })
+    if (enabled) vibrate([...VIBRATION_PATTERNS.success])
+  }
+
+  return (
+    <>
+      <SEO
+        title={t('settings.title')}
+        description={t('settings.title') + ' - ' + t('home.subtitle')}
+        path="/settings"
+      />
+      <div className="w-full h-full overflow-auto p-3 md:p-6">
+        <div className="max-w-2xl mx-auto flex flex-col gap-4 md:gap-6">
+          <h1 className="text-2xl md:text-4xl font-bold">⚙️ {t('settings.title') || 'Configurações'}</h1>
+
+          <div className="flex flex-col gap-3">
+            {sliders.map((slider, index) => (
+              <motion.label
+                key={slider.key}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="flex flex-col gap-2 px-4 py-3 rounded-2xl bg-slate-800/80 border border-slate-700"
+              >
+                <span className="flex items-center justify-between font-bold">
+                  <span>{slider.icon} {slider.label}</span>
+                  <span className="text-sm text-gray-300">{Math.round(settings[slider.key] * 100)}%</span>
+                </span>
+                <input
+                  type="range"
+                  min={slider.min}
+                  max={slider.max}
+                  step={slider.step}
+                  value={settings[slider.key]}
+                  onChange={(event) => updateSettings({ [slider.key]: Number(event.target.value) })}
+                  onPointerUp={slider.preview}
+                  onKeyUp={slider.preview}
+                  className="w-full accent-purple-500"
+                />
+              </motion.label>
+            ))}
+
+            {/* Voz do idioma atual */}
+            <motion.label
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: sliders.length * 0.05 }}
+              className="flex flex-col gap-2 px-4 py-3 rounded-2xl bg-slate-800/80 border border-slate-700"
+            >
+              <span className="font-bold">🎙️ {t('settings.voice') || 'Voz'}</span>
+              {languageVoices.length > 0 ? (
+                <select
+                  value={settings.voices[lang] ?? ''}
+                  onChange={(event) => selectVoice(event.target.value)}
+                  className="w-full px-3 py-2 rounded-lg bg-slate-700 text-white"
+                >
+                  <option value="">{t('settings.automaticVoice') || 'Automática'}</option>
+                  {languageVoices.map((voice) => (
+                    <option key={voice.voiceURI} value={voice.voiceURI}>
+                      {voice.name} ({voice.lang})
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <NoVoiceNotice />
+              )}
+            </motion.label>
+
+            <motion.button
+              onClick={toggleVibration}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: (sliders.length + 1) * 0.05 }}
+              className="flex items-center justify-between px-4 py-3 rounded-2xl bg-slate-800/80 border border-slate-700 font-bold"
+              aria-pressed={settings.vibration}
+            >
+              <span>📳 {t('settings.vibration') || 'Vibração'}</span>
+              <span className={`px-3 py-1 rounded-full text-sm ${settings.vibration ? 'bg-green-500' : 'bg-slate-600'}`}>
+                {settings.vibration ? t('settings.on') || 'Ligada' : t('settings.off') || 'Desligada'}
+              </span>
+            </motion.button>
+          </div>
+
+          {/* Gravações de voz dos pais */}
+          <div className="flex flex-col gap-2 px-4 py-3 rounded-2xl bg-slate-800/80 border border-slate-700">
+            <span className="flex items-center justify-between font-bold">
+              <span>🎙️ {t('recordings.section') || 'Gravações'}</span>
+              <span className="text-sm text-gray-300">{t('recordings.count', { count: recordingIds.size })}</span>
+            </span>
+            <p className="text-sm text-gray-300">{t('recordings.hint') || 'Segure um card para gravar sua voz.'}</p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={handleExportRecordings}
+                disabled={recordingIds.size === 0}
+                className="px-4 py-2 rounded-full bg-slate-700 hover:bg-slate-600 font-bold text-sm disabled:opacity-50"
+              >
+                📤 {t('recordings.export') || 'Exportar'}
+              </button>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="px-4 py-2 rounded-full bg-slate-700 hover:bg-slate-600 font-bold text-sm"
+              >
+                📥 {t('recordings.import') || 'Importar'}
+              </button>
+              <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportRecordings} />
+            </div>
+            {recordingsMessage && <p className="text-sm font-semibold">{recordingsMessage}</p>}
+          </div>
+
+          <BackupPanel />
+
+          {/* Progresso das crianças (pede a pergunta de adulto) */}
+          <Link
+            to="/parents"
+            className="flex items-center justify-between px-4 py-3 rounded-2xl bg-slate-800/80 border border-slate-700 font-bold hover:bg-slate-700/80"
+          >
+            <span>👪 {t('menu.parents') || 'Área dos pais'}</span>
+            <span>→</span>
+          </Link>
+
+          <motion.button
+            onClick={resetSettings}
+            className="self-center px-6 py-2 rounded-full bg-slate-700 hover:bg-slate-600 font-bold"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            ↩️ {t('settings.reset') || 'Restaurar padrões'}
+          </motion.button>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,73 @@
+import { useTranslation } from 'react-i18next'
+import { motion } from 'framer-motion'
+import SEO from '../components/SEO'
+import { achievements, getItemText } from '../content'
+import { getSpeechLang } from '../i18n/languages'
+import { speak } from '../utils/speak'
+import { getIconUrl } from '../utils/icons'
+import { useAchievements, getAchievementProgress, getAchievementTarget } from '../utils/achievements'
+
+/**
+ * Álbum de figurinhas: todas as conquistas, ganhas em cores e as que faltam em cinza com o progresso
+ */
+export default function Stickers() {
+  const { t, i18n } = useTranslation()
+  const { data } = useAchievements()
+  const unlockedCount = achievements.filter((achievement) => data.unlocked[achievement.id]).length
+
+  return (
+    <>
+      <SEO
+        title={t('stickers.title')}
+        description={t('stickers.title') + ' - ' + t('home.subtitle')}
+        path="/stickers"
+      />
+      <div className="w-full h-full overflow-auto p-3 md:p-6 bg-gradient-to-b from-amber-500 to-pink-600">
+        <div className="max-w-4xl mx-auto flex flex-col gap-4 md:gap-6">
+          <div className="flex flex-wrap items-end justify-between gap-2">
+            <h1 className="text-2xl md:text-4xl font-bold">📒 {t('stickers.title') || 'Álbum de figurinhas'}</h1>
+            <p className="font-bold">{t('stickers.count', { count: unlockedCount, total: achievements.length })}</p>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 md:gap-4">
+            {achievements.map((achievement, index) => {
+              const unlockedAt = data.unlocked[achievement.id]
+              const title = getItemText(achievement.title, i18n.language)
+              const description = getItemText(achievement.description, i18n.language)
+              const target = getAchievementTarget(achievement)
+
+              return (
+                <motion.button
+                  key={achievement.id}
+                  onClick={() => speak(`${title}. ${description}`, getSpeechLang(i18n.language))}
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ delay: index * 0.04 }}
+                  whileTap={{ scale: 0.95 }}
+                  className={`flex flex-col items-center gap-2 p-3 rounded-2xl text-center ${unlockedAt ? 'bg-white/90 text-slate-900 shadow-xl' : 'bg-black/20 border-2 border-dashed border-white/40'}`}
+                >
+                  <img
+                    src={getIconUrl(achievement.icon)}
+                    alt=""
+                    className={`w-20 h-20 md:w-24 md:h-24 ${unlockedAt ? '' : 'grayscale opacity-40'}`}
+                  />
+                  <span className="font-bold">{title}</span>
+                  <span className="text-xs opacity-80">{description}</span>
+                  {unlockedAt ? (
+                    <span className="text-xs font-semibold">
+                      {new Date(unlockedAt).toLocaleDateString(i18n.language)}
+                    </span>
+                  ) : (
+                    <span className="text-xs font-semibold">
+                      {t('stickers.progress', { value: Math.min(getAchievementProgress(achievement), target), target })}
+                    </span>
+                  )}
+                </motion.button>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -1,138 +1,253 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import words from '../data/words.json'
-import { speak } from '../utils/speak'
+import { letters, getItemText, getWordsForLanguage, getAudioKey, type WordItem } from '../content'
+import { toLanguageCode, getSpeechLang } from '../i18n/languages'
+import { speak, enqueueSpeech, cancelSpeech } from '../utils/speak'
+import { wait } from '../utils/wait'
+import { getIconUrl } from '../utils/icons'
 import { vibrate } from '../utils/vibrate'
-import { playBackgroundMusic, stopBackgroundMusic, playCorrectSound, playWrongSound } from '../utils/sounds'
+import { playBackgroundMusic, stopBackgroundMusic, playCorrectSound, playWrongSound, playSound } from '../utils/sounds'
+import { useProfileState } from '../utils/profiles'
+import { recordLearningEvent } from '../utils/learning'
+import { pickNextItem } from '../utils/scheduler'
+import { registerGame, takeBreakIfDue } from '../utils/screenTime'
+import { emitGameEvent } from '../utils/gameEvents'
 import SEO from '../components/SEO'
+import NoVoiceNotice from '../components/NoVoiceNotice'
+import Confetti from '../components/Confetti'
 
-type Word = typeof words[0]
+type Word = WordItem
 
-const getLanguageCode = (lang: string): string => {
-  const langMap: { [key: string]: string } = {
-    pt: 'pt-BR',
-    en: 'en-US',
-    es: 'es-ES',
-  }
-  return langMap[lang] || 'pt-BR'
-}
+/**
+ * Modos do jogo, do mais fácil ao mais difícil
+ * - syllables: montar a palavra com as sílabas
+ * - spelling: soletrar letra por letra, com algumas letras a mais para confundir
+ * - missing: completar a letra que falta na palavra
+ */
+type WordGameMode = 'syllables' | 'spelling' | 'missing'
+
+const WORD_GAME_MODES: WordGameMode[] = ['syllables', 'spelling', 'missing']
+
+// Letras a mais misturadas às da palavra nos modos de letras
+const DISTRACTOR_LETTERS = 3
+
+// Palavras que dá para soletrar com letras latinas (fica de fora japonês e chinês)
+const SPELLABLE_WORD = /^\p{Script=Latin}+$/u
+
+// Tempo mínimo da comemoração antes da próxima palavra (a fala pode ser mais curta)
+const COMPLETE_FEEDBACK_MS = 1500
 
 /**
  * Jogo de Sílabas e Palavras
- * Criança toca nas sílabas na ordem correta para formar palavras
+ * Criança toca nas sílabas na ordem correta para formar palavras;
+ * quem já domina as sílabas soletra letra por letra ou completa a letra que falta
  */
 export default function SyllableGame() {
   const { t, i18n } = useTranslation()
   const navigate = useNavigate()
-  const [score, setScore] = useState(0)
-  const [streak, setStreak] = useState(0)
+  // Pontos e sequência ficam salvos no perfil da criança
+  const [score, setScore] = useProfileState('syllableGame.score', 0)
+  const [streak, setStreak] = useProfileState('syllableGame.streak', 0)
+  const [mode, setMode] = useProfileState<WordGameMode>('syllableGame.mode', 'syllables')
+  const [letterCase, setLetterCase] = useProfileState<'upper' | 'lower'>('syllableGame.case', 'upper')
   const [currentWord, setCurrentWord] = useState<Word | null>(null)
-  const [syllables, setSyllables] = useState<string[]>([])
-  const [shuffledSyllables, setShuffledSyllables] = useState<string[]>([])
-  const [selectedSyllables, setSelectedSyllables] = useState<string[]>([])
+  // Partes da palavra na ordem (sílabas ou letras), opções embaralhadas e partes já escolhidas
+  const [pieces, setPieces] = useState<string[]>([])
+  const [shuffledPieces, setShuffledPieces] = useState<string[]>([])
+  const [selectedPieces, setSelectedPieces] = useState<string[]>([])
+  // Modo "letra que falta": posição da letra escondida
+  const [missingIndex, setMissingIndex] = useState(0)
   const [currentIndex, setCurrentIndex] = useState(0)
   const [feedback, setFeedback] = useState<'correct' | 'incorrect' | 'complete' | null>(null)
   const [showParticles, setShowParticles] = useState(false)
+  // Evita continuar a sequência de falas depois de sair da página
+  const isMountedRef = useRef(true)
+  // Tentativa da sílaba atual e momento do último toque certo (para os eventos de aprendizado)
+  const attemptRef = useRef(1)
+  const askedAtRef = useRef(Date.now())
+  // Erros na palavra atual (palavra perfeita = nenhum)
+  const wordMistakesRef = useRef(0)
+
+  const lang = toLanguageCode(i18n.language)
+  const langCode = getSpeechLang(lang)
+  const availableWords = getWordsForLanguage(lang)
+
+  const getSyllables = (word: Word): string[] => word.syllables[lang] ?? []
+
+  const getWordName = (word: Word): string => getItemText(word, lang)
+
+  // Letras minúsculas da palavra (as peças dos modos de letras)
+  const getLetters = (word: Word): string[] => [...getWordName(word).toLocaleLowerCase(lang)]
+
+  const spellableWords = availableWords.filter((word) => SPELLABLE_WORD.test(getWordName(word)))
+  // Sem palavras soletráveis no idioma, só o modo de sílabas
+  const currentMode: WordGameMode = spellableWords.length > 0 ? mode : 'syllables'
+
+  // Peças exibidas em maiúsculas ou minúsculas (os dados das sílabas vêm em maiúsculas)
+  const displayPiece = (piece: string) =>
+    letterCase === 'upper' ? piece.toLocaleUpperCase(lang) : piece.toLocaleLowerCase(lang)
 
-  const langCode = getLanguageCode(i18n.language)
+  const wordAudioKey = (word: Word) => getAudioKey('words', word.id)
 
-  const getSyllables = (word: Word): string[] => {
-    const lang = i18n.language
-    if (lang === 'en') return word.syllables_en
-    if (lang === 'es') return word.syllables_es
-    return word.syllables_pt
+  /**
+   * Leitura da sílaba quando a escrita não é fonética (ex: pinyin no chinês)
+   */
+  const getReading = (syllable: string): string | undefined => {
+    if (!currentWord || currentMode !== 'syllables') return undefined
+    return currentWord.readings?.[lang]?.[pieces.indexOf(syllable)]
   }
 
-  const getWordName = (word: Word): string => {
-    const lang = i18n.language
-    if (lang === 'en') return word.en
-    if (lang === 'es') return word.es
-    return word.pt
+  /**
+   * Letras de letters.json que não estão na palavra, para misturar às opções
+   */
+  const pickDistractors = (wordLetters: string[]): string[] =>
+    letters
+      .map((letter) => letter.id.toLocaleLowerCase(lang))
+      .filter((letter) => !wordLetters.includes(letter))
+      .sort(() => Math.random() - 0.5)
+      .slice(0, DISTRACTOR_LETTERS)
+
+  /**
+   * Prepara as peças da palavra conforme o modo
+   */
+  const setupRound = (word: Word, roundMode: WordGameMode) => {
+    let roundPieces: string[]
+    let options: string[]
+
+    if (roundMode === 'syllables') {
+      roundPieces = getSyllables(word)
+      options = roundPieces
+    } else {
+      const wordLetters = getLetters(word)
+      if (roundMode === 'spelling') {
+        roundPieces = wordLetters
+      } else {
+        const hidden = Math.floor(Math.random() * wordLetters.length)
+        setMissingIndex(hidden)
+        roundPieces = [wordLetters[hidden]]
+      }
+      options = [...roundPieces, ...pickDistractors(wordLetters)]
+    }
+
+    setPieces(roundPieces)
+    setShuffledPieces([...options].sort(() => Math.random() - 0.5))
+    setSelectedPieces([])
+    setCurrentIndex(0)
   }
 
   /**
    * Gera uma nova rodada com nova palavra
    */
   const generateNewWord = () => {
-    const randomWord = words[Math.floor(Math.random() * words.length)]
-    const wordSyllables = getSyllables(randomWord)
+    const pool = currentMode === 'syllables' ? availableWords : spellableWords
+    if (pool.length === 0) {
+      setCurrentWord(null)
+      return
+    }
+
+    // Palavra escolhida pela repetição espaçada: as que a criança erra voltam mais cedo
+    const randomWord = pickNextItem(pool, wordAudioKey, lang)
 
     setCurrentWord(randomWord)
-    setSyllables(wordSyllables)
-    setShuffledSyllables([...wordSyllables].sort(() => Math.random() - 0.5))
-    setSelectedSyllables([])
-    setCurrentIndex(0)
+    setupRound(randomWord, currentMode)
     setFeedback(null)
     setShowParticles(false)
+    attemptRef.current = 1
+    askedAtRef.current = Date.now()
+    wordMistakesRef.current = 0
 
     // Falar a palavra completa
-    setTimeout(() => {
-      speak(getWordName(randomWord), langCode)
-    }, 500)
+    speak(getWordName(randomWord), langCode, wordAudioKey(randomWord))
   }
 
-  // Inicializar jogo
+  // Inicializar música de fundo
   useEffect(() => {
-    generateNewWord()
-    playBackgroundMusic(0.3)
+    isMountedRef.current = true
+    playBackgroundMusic()
+    // Com o jogo aberto, a pausa do tempo de tela espera a rodada terminar
+    const unregisterGame = registerGame()
 
     return () => {
+      isMountedRef.current = false
+      unregisterGame()
       stopBackgroundMusic()
+      cancelSpeech()
     }
   }, [])
 
-  // Atualizar quando idioma mudar
+  // Iniciar jogo e atualizar quando idioma ou modo mudar
   useEffect(() => {
-    if (currentWord) {
-      const wordSyllables = getSyllables(currentWord)
-      setSyllables(wordSyllables)
-      setShuffledSyllables([...wordSyllables].sort(() => Math.random() - 0.5))
-      setSelectedSyllables([])
-      setCurrentIndex(0)
+    const pool = currentMode === 'syllables' ? availableWords : spellableWords
+    if (!currentWord || !pool.includes(currentWord)) {
+      // Primeira rodada ou palavra que não serve no novo idioma/modo: sortear outra
+      generateNewWord()
+    } else {
+      setupRound(currentWord, currentMode)
     }
-  }, [i18n.language])
+  }, [i18n.language, currentMode])
 
   /**
-   * Tratar clique em sílaba
+   * Tratar clique em sílaba ou letra
    */
-  const handleSyllableClick = (syllable: string, index: number) => {
+  const handleSyllableClick = async (syllable: string, index: number) => {
     if (feedback === 'complete') return
 
-    const correctSyllable = syllables[currentIndex]
+    const correctSyllable = pieces[currentIndex]
+
+    if (currentWord) {
+      recordLearningEvent({
+        game: 'syllable-game',
+        itemKey: wordAudioKey(currentWord),
+        lang,
+        correct: syllable === correctSyllable,
+        attempt: attemptRef.current,
+        responseTimeMs: Date.now() - askedAtRef.current,
+        expected: correctSyllable,
+        chosen: syllable === correctSyllable ? undefined : syllable,
+      })
+      emitGameEvent({
+        type: 'answer',
+        game: 'syllable-game',
+        correct: syllable === correctSyllable,
+        streak: syllable === correctSyllable ? streak : 0,
+      })
+    }
 
     if (syllable === correctSyllable) {
       // Acertou a sílaba
       speak(syllable.toLowerCase(), langCode)
       vibrate([30])
+      playSound('tap')
+      attemptRef.current = 1
+      askedAtRef.current = Date.now()
 
-      const newSelected = [...selectedSyllables, syllable]
-      setSelectedSyllables(newSelected)
+      const newSelected = [...selectedPieces, syllable]
+      setSelectedPieces(newSelected)
 
       // Remover da lista embaralhada
-      const newShuffled = [...shuffledSyllables]
+      const newShuffled = [...shuffledPieces]
       newShuffled.splice(index, 1)
-      setShuffledSyllables(newShuffled)
+      setShuffledPieces(newShuffled)
 
-      if (newSelected.length === syllables.length) {
+      if (newSelected.length === pieces.length) {
         // Completou a palavra!
         setFeedback('complete')
+        emitGameEvent({ type: 'round-completed', game: 'syllable-game', perfect: wordMistakesRef.current === 0 })
         setScore(prev => prev + 10)
         setStreak(prev => prev + 1)
         vibrate([30, 50, 30])
         setShowParticles(true)
-        playCorrectSound(0.5)
-
-        // Falar a palavra completa
-        setTimeout(() => {
-          speak(getWordName(currentWord!), langCode)
-        }, 300)
+        playCorrectSound()
 
-        // Próxima palavra
-        setTimeout(() => {
-          generateNewWord()
-        }, 2500)
+        // Falar a palavra completa depois da última sílaba, e então a próxima palavra
+        await Promise.all([enqueueSpeech(getWordName(currentWord!), langCode, wordAudioKey(currentWord!)), wait(COMPLETE_FEEDBACK_MS)])
+        if (!isMountedRef.current) return
+        // Fim da rodada: pausa se o tempo de tela acabou
+        await takeBreakIfDue()
+        if (!isMountedRef.current) return
+        generateNewWord()
       } else {
         setCurrentIndex(prev => prev + 1)
         setFeedback('correct')
@@ -143,7 +258,9 @@ export default function SyllableGame() {
       setFeedback('incorrect')
       vibrate([100, 50, 100])
       setStreak(0)
-      playWrongSound(0.3)
+      playWrongSound()
+      attemptRef.current += 1
+      wordMistakesRef.current += 1
 
       setTimeout(() => {
         setFeedback(null)
@@ -156,7 +273,7 @@ export default function SyllableGame() {
    */
   const handleListenWord = () => {
     if (currentWord) {
-      speak(getWordName(currentWord), langCode)
+      speak(getWordName(currentWord), langCode, wordAudioKey(currentWord))
     }
   }
 
@@ -213,6 +330,42 @@ export default function SyllableGame() {
             {t('menu.syllableGame')}
           </motion.h1>
 
+          {/* Modo de jogo e maiúsculas/minúsculas (só em idiomas com letras latinas) */}
+          {spellableWords.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2 mb-3 sm:mb-4">
+              {WORD_GAME_MODES.map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  disabled={feedback === 'complete'}
+                  className={`px-3 sm:px-5 py-1 sm:py-2 rounded-full text-xs sm:text-base font-bold transition-all ${
+                    currentMode === option ? 'bg-white text-purple-700' : 'bg-white/20 hover:bg-white/30'
+                  }`}
+                >
+                  {t(`syllable.modes.${option}`)}
+                </button>
+              ))}
+              <button
+                onClick={() => setLetterCase(letterCase === 'upper' ? 'lower' : 'upper')}
+                className="px-3 sm:px-5 py-1 sm:py-2 rounded-full text-xs sm:text-base font-bold bg-white/20 hover:bg-white/30 transition-all"
+              >
+                {letterCase === 'upper' ? 'ABC → abc' : 'abc → ABC'}
+              </button>
+            </div>
+          )}
+
+          {/* Idioma sem lista de palavras */}
+          {availableWords.length === 0 && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="text-center py-4 px-6 bg-white/20 rounded-3xl text-lg sm:text-2xl font-bold max-w-md"
+            >
+              <p className="text-5xl mb-3">🌍</p>
+              {t('syllable.unavailable')}
+            </motion.div>
+          )}
+
           {/* Imagem da palavra */}
           {currentWord && (
             <motion.div
@@ -228,49 +381,67 @@ export default function SyllableGame() {
                 whileTap={{ scale: 0.95 }}
               >
                 <img
-                  src={`https://cdn.jsdelivr.net/npm/openmoji@15.0.0/color/svg/${currentWord.icon}.svg`}
+                  src={getIconUrl(currentWord.icon)}
                   alt={getWordName(currentWord)}
                   className="w-20 h-20 sm:w-32 sm:h-32"
                 />
               </motion.button>
               <p className="text-sm sm:text-lg opacity-75">{t('syllable.tapToHear')}</p>
+              <NoVoiceNotice className="mt-2" />
             </motion.div>
           )}
 
-          {/* Sílabas selecionadas (palavra sendo formada) */}
+          {/* Sílabas ou letras selecionadas (palavra sendo formada) */}
           <div className="mb-4 sm:mb-6 min-h-[60px] sm:min-h-[80px] flex items-center justify-center">
             <motion.div
-              className="flex gap-2 sm:gap-3 p-3 sm:p-4 bg-white/20 rounded-2xl min-w-[200px] sm:min-w-[300px] justify-center"
+              className={`flex ${currentMode === 'syllables' ? 'gap-2 sm:gap-3' : 'gap-1'} p-3 sm:p-4 bg-white/20 rounded-2xl min-w-[200px] sm:min-w-[300px] justify-center`}
               animate={feedback === 'complete' ? { scale: [1, 1.1, 1] } : {}}
             >
-              {selectedSyllables.length === 0 ? (
-                <span className="text-white/50 text-lg sm:text-2xl">{t('syllable.buildWord')}</span>
+              {currentMode === 'missing' && currentWord ? (
+                // Palavra inteira com um espaço no lugar da letra que falta
+                getLetters(currentWord).map((letter, idx) => (
+                  <span
+                    key={idx}
+                    className={`text-2xl sm:text-4xl font-bold ${
+                      idx === missingIndex
+                        ? `min-w-[1.2em] text-center border-b-4 border-yellow-300 ${selectedPieces.length ? 'text-yellow-300' : 'text-transparent'}`
+                        : ''
+                    }`}
+                  >
+                    {displayPiece(letter)}
+                  </span>
+                ))
+              ) : selectedPieces.length === 0 ? (
+                <span className="text-white/50 text-lg sm:text-2xl">
+                  {currentMode === 'spelling' ? t('syllable.spellWord') || 'Escreva a palavra' : t('syllable.buildWord')}
+                </span>
               ) : (
-                selectedSyllables.map((syl, idx) => (
+                selectedPieces.map((syl, idx) => (
                   <motion.span
                     key={idx}
                     initial={{ scale: 0 }}
                     animate={{ scale: 1 }}
-                    className="text-2xl sm:text-4xl font-bold text-yellow-300"
+                    className="flex flex-col items-center text-2xl sm:text-4xl font-bold text-yellow-300"
                   >
-                    {syl}
+                    {getReading(syl) && <span className="text-xs sm:text-sm font-semibold opacity-80">{getReading(syl)}</span>}
+                    {displayPiece(syl)}
                   </motion.span>
                 ))
               )}
             </motion.div>
           </div>
 
-          {/* Sílabas embaralhadas para escolher */}
+          {/* Sílabas ou letras embaralhadas para escolher */}
           <motion.div
-            className="grid grid-cols-2 sm:grid-cols-3 gap-3 sm:gap-4 mb-4"
+            className={`grid ${currentMode === 'syllables' ? 'grid-cols-2 sm:grid-cols-3' : 'grid-cols-4 sm:grid-cols-6'} gap-3 sm:gap-4 mb-4`}
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
           >
-            {shuffledSyllables.map((syllable, index) => (
+            {shuffledPieces.map((syllable, index) => (
               <motion.button
                 key={`${syllable}-${index}`}
                 onClick={() => handleSyllableClick(syllable, index)}
-                className={`px-6 sm:px-8 py-4 sm:py-6 rounded-2xl text-xl sm:text-3xl font-bold transition-all ${
+                className={`${currentMode === 'syllables' ? 'px-6 sm:px-8' : 'px-3 sm:px-5'} py-4 sm:py-6 rounded-2xl text-xl sm:text-3xl font-bold transition-all ${
                   feedback === 'incorrect'
                     ? 'bg-red-500/80'
                     : 'bg-white/30 hover:bg-white/50'
@@ -281,7 +452,10 @@ export default function SyllableGame() {
                 animate={{ opacity: 1, scale: 1 }}
                 transition={{ delay: index * 0.1 }}
               >
-                {syllable}
+                {getReading(syllable) && (
+                  <span className="block text-xs sm:text-base font-semibold opacity-80">{getReading(syllable)}</span>
+                )}
+                {displayPiece(syllable)}
               </motion.button>
             ))}
           </motion.div>
@@ -293,7 +467,7 @@ export default function SyllableGame() {
               animate={{ opacity: 1, scale: 1 }}
               className="text-center py-2 sm:py-4 px-4 sm:px-8 rounded-full text-sm sm:text-2xl font-bold bg-green-500/80 text-white"
             >
-              🎉 {t('quiz.correct')} +10 pontos
+              🎉 {t('quiz.correct')} {t('quiz.points', { count: 10 })}
             </motion.div>
           )}
 
@@ -304,37 +478,3 @@ export default function SyllableGame() {
     </>
   )
 }
-
-/**
- * Componente de confete
- * Quantidade aumenta progressivamente com a sequência
- */
-function Confetti({ count = 15 }: { count?: number }) {
-  return (
-    <div className="fixed inset-0 pointer-events-none overflow-hidden">
-      {[...Array(count)].map((_, i) => (
-        <motion.div
-          key={i}
-          className="absolute w-2 h-2 rounded-full"
-          style={{
-            left: `${Math.random() * 100}%`,
-            top: '-10px',
-            backgroundColor: ['#FF6B6B', '#4ECDC4', '#FFE66D', '#95E1D3'][
-              Math.floor(Math.random() * 4)
-            ],
-          }}
-          initial={{ opacity: 1, y: 0 }}
-          animate={{
-            opacity: 0,
-            y: window.innerHeight + 100,
-            x: (Math.random() - 0.5) * 200,
-          }}
-          transition={{
-            duration: 2 + Math.random() * 1,
-            ease: 'easeOut',
-          }}
-        />
-      ))}
-    </div>
-  )
-}
@@ -0,0 +1,63 @@
+import React from 'react'
+import { useTranslation } from 'react-i18next'
+import { Link, useParams } from 'react-router-dom'
+import CardAprendizado from '../components/CardAprendizado'
+import SEO from '../components/SEO'
+import { getItemText, type PackLayout } from '../content'
+import { useContentPacks } from '../content/customPacks'
+
+// Classes completas para o Tailwind encontrar no build
+const LAYOUT_CLASSES: Record<PackLayout, string> = {
+  compact: 'grid-cols-4 md:grid-cols-8',
+  medium: 'grid-cols-3 md:grid-cols-5',
+  large: 'grid-cols-2 lg:grid-cols-3',
+}
+
+/**
+ * Página genérica de tema: renderiza qualquer pacote de conteúdo
+ * `packId` permite fixar o pacote nas rotas antigas (/letters, /numbers, /colors)
+ */
+export default function Topic({ packId }: { packId?: string }) {
+  const { t, i18n } = useTranslation()
+  const params = useParams()
+  const packs = useContentPacks()
+  const id = packId ?? params.packId
+  const pack = packs.find((p) => p.id === id)
+
+  if (!pack) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center gap-4 p-6 text-center">
+        <div className="text-5xl">🔍</div>
+        <p className="text-xl font-bold">{t('topics.notFound')}</p>
+        <Link to="/topics" className="px-6 py-2 bg-white/20 rounded-full hover:bg-white/30 transition-all font-bold">
+          {t('topics.title')}
+        </Link>
+      </div>
+    )
+  }
+
+  const title = getItemText(pack.title, i18n.language)
+
+  return (
+    <>
+      <SEO
+        title={title}
+        description={title + ' - ' + (pack.description ?? t('home.subtitle'))}
+        keywords={pack.keywords}
+        path={packId ? `/${packId}` : `/topics/${pack.id}`}
+      />
+      <div className={`w-full h-full grid ${LAYOUT_CLASSES[pack.layout]} gap-3 md:gap-4 p-3 md:p-6 auto-rows-fr`}>
+        {pack.items.map((item) => <CardAprendizado key={item.id} item={item} packId={pack.id} />)}
+      </div>
+      {/* Letras e números também têm traçado */}
+      {(pack.id === 'letters' || pack.id === 'numbers') && (
+        <Link
+          to={`/tracing?set=${pack.id}`}
+          className="fixed bottom-4 right-4 z-20 px-5 py-3 rounded-full bg-white text-violet-700 font-bold shadow-2xl hover:scale-105 transition-transform"
+        >
+          ✏️ {t('tracing.practice') || 'Treinar a escrita'}
+        </Link>
+      )}
+    </>
+  )
+}
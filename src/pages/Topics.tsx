@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Link } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import SEO from '../components/SEO'
+import { getItemText, localizeIssue, type ContentIssue } from '../content'
+import { isBuiltInPack } from '../content/packs'
+import { useContentPacks, installPackFromFile, removePack, PackValidationError } from '../content/customPacks'
+
+/**
+ * Lista de temas (pacotes de conteúdo)
+ * Permite carregar um pacote JSON do dispositivo, sem alterar o código
+ */
+export default function Topics() {
+  const { t, i18n } = useTranslation()
+  const packs = useContentPacks()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [issues, setIssues] = useState<ContentIssue[]>([])
+  const [installedTitle, setInstalledTitle] = useState<string | null>(null)
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setIssues([])
+    setInstalledTitle(null)
+
+    try {
+      const pack = await installPackFromFile(file)
+      setInstalledTitle(getItemText(pack.title, i18n.language))
+    } catch (error) {
+      if (error instanceof PackValidationError) {
+        setIssues(error.issues)
+      } else {
+        const message = (error as Error).message
+        setIssues([{ source: file.name, message, code: 'unexpected', params: { error: message } }])
+      }
+    }
+  }
+
+  return (
+    <>
+      <SEO
+        title={t('topics.title')}
+        description={t('topics.title') + ' - ' + t('home.subtitle')}
+        path="/topics"
+      />
+      <div className="w-full h-full overflow-auto p-3 md:p-6">
+        <div className="max-w-4xl mx-auto flex flex-col gap-4 md:gap-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h1 className="text-2xl md:text-4xl font-bold">📚 {t('topics.title')}</h1>
+            <motion.button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 md:px-6 py-2 rounded-full bg-gradient-to-r from-purple-600 to-pink-600 font-bold shadow-lg"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              ➕ {t('topics.load')}
+            </motion.button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+          </div>
+
+          {installedTitle && (
+            <p className="px-4 py-3 rounded-2xl bg-green-500/80 font-bold">✅ {t('topics.installed', { title: installedTitle })}</p>
+          )}
+
+          {issues.length > 0 && (
+            <div className="px-4 py-3 rounded-2xl bg-red-500/80">
+              <p className="font-bold mb-1">❌ {t('topics.invalid')}</p>
+              <ul className="text-sm list-disc pl-5">
+                {issues.map((issue, index) => (
+                  <li key={index}>{localizeIssue(issue, t)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 md:gap-4">
+            {packs.map((pack, index) => (
+              <motion.div
+                key={pack.id}
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ delay: index * 0.05 }}
+                className="relative"
+              >
+                <Link
+                  to={`/topics/${pack.id}`}
+                  className="flex flex-col items-center justify-center gap-2 h-32 md:h-40 rounded-2xl bg-white/10 hover:bg-white/20 transition-all font-bold text-center px-2"
+                >
+                  <span className="text-4xl md:text-5xl">{pack.emoji}</span>
+                  <span className="text-sm md:text-xl">{getItemText(pack.title, i18n.language)}</span>
+                  <span className="text-xs opacity-75">{t('topics.itemCount', { count: pack.items.length })}</span>
+                </Link>
+                {!isBuiltInPack(pack.id) && (
+                  <button
+                    onClick={() => removePack(pack.id)}
+                    aria-label={t('topics.remove')}
+                    title={t('topics.remove')}
+                    className="absolute top-2 right-2 w-8 h-8 rounded-full bg-black/30 hover:bg-red-500/80 transition-all"
+                  >
+                    ✕
+                  </button>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
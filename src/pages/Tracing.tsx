@@ -0,0 +1,384 @@
+import { useState, useEffect, useRef, type PointerEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { letters, numbers, getItemText, getAudioKey } from '../content'
+import { GUIDE_LINES, TRACING_DIGITS, getStrokeTemplate, type Stroke, type StrokePoint } from '../content/strokes'
+import { getSpeechLang } from '../i18n/languages'
+import { speak, cancelSpeech } from '../utils/speak'
+import { wait } from '../utils/wait'
+import { vibrate } from '../utils/vibrate'
+import { playCorrectSound, playWrongSound, playSound } from '../utils/sounds'
+import { useProfileState, useActiveProfile } from '../utils/profiles'
+import { getTraceTolerance, matchesStroke, pointAlong } from '../utils/tracing'
+import { registerGame, takeBreakIfDue } from '../utils/screenTime'
+import { emitGameEvent } from '../utils/gameEvents'
+import SEO from '../components/SEO'
+import Confetti from '../components/Confetti'
+
+type TracingSet = 'letters' | 'numbers'
+
+// Resolução interna do canvas (quadrado); os modelos vão de 0 a 100
+const CANVAS_SIZE = 600
+const SCALE = CANVAS_SIZE / 100
+
+// Duração da demonstração de cada traço
+const DEMO_STROKE_MS = 900
+const CORRECT_FEEDBACK_MS = 2000
+const INCORRECT_FEEDBACK_MS = 800
+
+const COLORS = {
+  guide: '#CBD5E1',
+  shape: '#E2E8F0',
+  next: '#94A3B8',
+  done: '#8B5CF6',
+  drawing: '#EC4899',
+  wrong: '#EF4444',
+  start: '#22C55E',
+}
+
+function drawPath(ctx: CanvasRenderingContext2D, points: Stroke, width: number, color: string, dashed = false) {
+  if (points.length === 0) return
+  ctx.beginPath()
+  ctx.setLineDash(dashed ? [width, width * 1.5] : [])
+  ctx.lineWidth = width * SCALE
+  ctx.strokeStyle = color
+  ctx.lineCap = 'round'
+  ctx.lineJoin = 'round'
+  ctx.moveTo(points[0][0] * SCALE, points[0][1] * SCALE)
+  points.slice(1).forEach(([x, y]) => ctx.lineTo(x * SCALE, y * SCALE))
+  // Um ponto só (toque) também aparece
+  if (points.length === 1) ctx.lineTo(points[0][0] * SCALE + 0.1, points[0][1] * SCALE)
+  ctx.stroke()
+  ctx.setLineDash([])
+}
+
+function drawCircle(ctx: CanvasRenderingContext2D, [x, y]: StrokePoint, radius: number, color: string, label?: string) {
+  ctx.beginPath()
+  ctx.fillStyle = color
+  ctx.arc(x * SCALE, y * SCALE, radius * SCALE, 0, Math.PI * 2)
+  ctx.fill()
+  if (label) {
+    ctx.fillStyle = 'white'
+    ctx.font = `bold ${radius * 1.2 * SCALE}px sans-serif`
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText(label, x * SCALE, y * SCALE)
+  }
+}
+
+/**
+ * Seta no fim do traço indicando o sentido do movimento
+ */
+function drawArrow(ctx: CanvasRenderingContext2D, stroke: Stroke, color: string) {
+  const tip = pointAlong(stroke, 1)
+  const before = pointAlong(stroke, 0.9)
+  const angle = Math.atan2(tip[1] - before[1], tip[0] - before[0])
+  ctx.beginPath()
+  ctx.fillStyle = color
+  ctx.moveTo(tip[0] * SCALE, tip[1] * SCALE)
+  ctx.lineTo((tip[0] - 6 * Math.cos(angle - 0.5)) * SCALE, (tip[1] - 6 * Math.sin(angle - 0.5)) * SCALE)
+  ctx.lineTo((tip[0] - 6 * Math.cos(angle + 0.5)) * SCALE, (tip[1] - 6 * Math.sin(angle + 0.5)) * SCALE)
+  ctx.fill()
+}
+
+/**
+ * Traço parcial até a fração informada (demonstração)
+ */
+const partialStroke = (stroke: Stroke, fraction: number): Stroke =>
+  Array.from({ length: 41 }, (_, i) => pointAlong(stroke, (fraction * i) / 40))
+
+/**
+ * Página de traçado de letras e números
+ * A criança segue os traços na ordem e no sentido certos, com dedo, caneta ou mouse;
+ * cada traço é conferido com folga antes de liberar o próximo
+ */
+export default function Tracing() {
+  const { t, i18n } = useTranslation()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const set: TracingSet = searchParams.get('set') === 'numbers' ? 'numbers' : 'letters'
+  const [letterCase, setLetterCase] = useProfileState<'upper' | 'lower'>('tracing.case', 'upper')
+  const [selected, setSelected] = useState(0)
+  // Traços já feitos do caractere atual
+  const [strokeIndex, setStrokeIndex] = useState(0)
+  const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null)
+  const [isDemo, setIsDemo] = useState(false)
+  const [demoRun, setDemoRun] = useState(0)
+  const profile = useActiveProfile()
+  const tolerance = getTraceTolerance(profile?.ageBand)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  // Traço sendo desenhado, traço errado em destaque e posição da demonstração (fora do estado para não renderizar a cada movimento)
+  const drawingRef = useRef<Stroke | null>(null)
+  const wrongStrokeRef = useRef<Stroke | null>(null)
+  const demoRef = useRef<{ stroke: number; fraction: number } | null>(null)
+  const mistakesRef = useRef(0)
+  const isMountedRef = useRef(true)
+
+  const characters =
+    set === 'numbers' ? TRACING_DIGITS : letters.map((letter) => (letterCase === 'upper' ? letter.id : letter.id.toLowerCase()))
+  const index = Math.min(selected, characters.length - 1)
+  const character = characters[index]
+  const template = getStrokeTemplate(character) ?? []
+  const langCode = getSpeechLang(i18n.language)
+
+  const sayCharacter = () => {
+    const item = set === 'numbers' ? numbers.find((number) => number.id === character) : letters.find((letter) => letter.id === character.toUpperCase())
+    if (item) {
+      speak(getItemText(item, i18n.language), langCode, getAudioKey(set, item.id))
+    } else {
+      speak(character, langCode)
+    }
+  }
+
+  const draw = () => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx) return
+    ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE)
+
+    // Linhas-guia do caderno
+    const guides = [GUIDE_LINES.top, GUIDE_LINES.middle, GUIDE_LINES.baseline]
+    guides.forEach((y) => drawPath(ctx, [[4, y], [96, y]], 0.6, COLORS.guide, y !== GUIDE_LINES.baseline))
+
+    // Forma inteira do caractere, clarinha
+    template.forEach((stroke) => drawPath(ctx, stroke, 11, COLORS.shape))
+
+    const demo = demoRef.current
+    if (demo) {
+      template.slice(0, demo.stroke).forEach((stroke) => drawPath(ctx, stroke, 7, COLORS.done))
+      const partial = partialStroke(template[demo.stroke], demo.fraction)
+      drawPath(ctx, partial, 7, COLORS.done)
+      drawCircle(ctx, partial[partial.length - 1], 4.5, COLORS.drawing)
+      return
+    }
+
+    template.slice(0, strokeIndex).forEach((stroke) => drawPath(ctx, stroke, 7, COLORS.done))
+
+    // Próximo traço: caminho tracejado, seta do sentido e ponto de partida numerado
+    const next = template[strokeIndex]
+    if (next) {
+      drawPath(ctx, next, 2, COLORS.next, true)
+      drawArrow(ctx, next, COLORS.next)
+      drawCircle(ctx, next[0], 5, COLORS.start, String(strokeIndex + 1))
+    }
+
+    if (wrongStrokeRef.current) drawPath(ctx, wrongStrokeRef.current, 5, COLORS.wrong)
+    if (drawingRef.current) drawPath(ctx, drawingRef.current, 5, COLORS.drawing)
+  }
+
+  useEffect(() => {
+    isMountedRef.current = true
+    const unregisterGame = registerGame()
+    return () => {
+      isMountedRef.current = false
+      unregisterGame()
+      cancelSpeech()
+    }
+  }, [])
+
+  // Caractere novo: recomeça e mostra como se faz
+  useEffect(() => {
+    setStrokeIndex(0)
+    setFeedback(null)
+    mistakesRef.current = 0
+    drawingRef.current = null
+    wrongStrokeRef.current = null
+    sayCharacter()
+    setDemoRun((run) => run + 1)
+  }, [character])
+
+  // Demonstração animada: um ponto percorre cada traço na ordem
+  useEffect(() => {
+    if (demoRun === 0 || template.length === 0) return
+    setIsDemo(true)
+    const startedAt = performance.now()
+    let frame = 0
+    const step = (now: number) => {
+      const elapsed = now - startedAt
+      const stroke = Math.floor(elapsed / DEMO_STROKE_MS)
+      if (stroke >= template.length) {
+        demoRef.current = null
+        setIsDemo(false)
+        draw()
+        return
+      }
+      demoRef.current = { stroke, fraction: (elapsed % DEMO_STROKE_MS) / DEMO_STROKE_MS }
+      draw()
+      frame = requestAnimationFrame(step)
+    }
+    frame = requestAnimationFrame(step)
+    return () => {
+      cancelAnimationFrame(frame)
+      demoRef.current = null
+      setIsDemo(false)
+    }
+  }, [demoRun])
+
+  useEffect(draw, [strokeIndex, feedback, character, isDemo])
+
+  const toPoint = (event: PointerEvent<HTMLCanvasElement>): StrokePoint => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return [((event.clientX - rect.left) / rect.width) * 100, ((event.clientY - rect.top) / rect.height) * 100]
+  }
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (isDemo || feedback || strokeIndex >= template.length) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    wrongStrokeRef.current = null
+    drawingRef.current = [toPoint(event)]
+    draw()
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    drawingRef.current.push(toPoint(event))
+    draw()
+  }
+
+  const handlePointerUp = async () => {
+    const drawn = drawingRef.current
+    drawingRef.current = null
+    if (!drawn) return
+
+    if (matchesStroke(drawn, template[strokeIndex], tolerance)) {
+      const done = strokeIndex + 1
+      setStrokeIndex(done)
+      if (done < template.length) {
+        playSound('tap')
+        vibrate(20)
+        return
+      }
+
+      // 🎉 Caractere completo
+      setFeedback('correct')
+      playCorrectSound()
+      vibrate([30, 50, 30])
+      emitGameEvent({ type: 'round-completed', game: 'tracing', perfect: mistakesRef.current === 0 })
+      await Promise.all([speak(t('quiz.correct') || 'Parabéns!', langCode), wait(CORRECT_FEEDBACK_MS)])
+      if (!isMountedRef.current) return
+      await takeBreakIfDue()
+      if (!isMountedRef.current) return
+      setSelected((index + 1) % characters.length)
+    } else {
+      // Traço fora do modelo: mostra em vermelho e deixa tentar de novo
+      mistakesRef.current += 1
+      wrongStrokeRef.current = drawn
+      setFeedback('incorrect')
+      playWrongSound()
+      vibrate([100, 50, 100])
+      await wait(INCORRECT_FEEDBACK_MS)
+      if (!isMountedRef.current) return
+      wrongStrokeRef.current = null
+      setFeedback(null)
+    }
+  }
+
+  const selectSet = (next: TracingSet) => {
+    setSelected(0)
+    setSearchParams({ set: next }, { replace: true })
+  }
+
+  const optionClass = (isSelected: boolean) =>
+    `px-3 sm:px-5 py-1 sm:py-2 rounded-full text-xs sm:text-base font-bold transition-all ${
+      isSelected ? 'bg-white text-violet-700' : 'bg-white/20 hover:bg-white/30'
+    }`
+
+  return (
+    <>
+      <SEO
+        title={t('menu.tracing')}
+        description="Traçado de letras e números - crianças aprendem a escrever seguindo a ordem e o sentido dos traços, com demonstração animada, no dedo, na caneta ou no mouse."
+        keywords="traçado de letras, caligrafia, escrever letras, coordenação motora, educação infantil, letter tracing, kids learning"
+        path="/tracing"
+      />
+      <div className="relative h-screen bg-gradient-to-b from-violet-500 to-fuchsia-600 flex flex-col items-center justify-start p-3 sm:p-6 text-white overflow-hidden">
+      <div className="absolute top-0 left-0 right-0 px-3 sm:px-6 py-3 sm:py-4 flex items-center justify-between z-10 w-full bg-gradient-to-b from-black/10 to-transparent">
+        <motion.button
+          onClick={() => navigate('/')}
+          className="px-3 sm:px-6 py-1 sm:py-2 bg-white/20 rounded-full hover:bg-white/30 transition-all text-xs sm:text-lg font-bold"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          ← {t('common.back') || 'Voltar'}
+        </motion.button>
+
+        <div className="flex gap-2">
+          <button onClick={() => selectSet('letters')} className={optionClass(set === 'letters')}>
+            🔤 {t('menu.letters')}
+          </button>
+          <button onClick={() => selectSet('numbers')} className={optionClass(set === 'numbers')}>
+            🔢 {t('menu.numbers')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col items-center justify-center flex-1 w-full pt-16 sm:pt-20 gap-2 sm:gap-3">
+        {/* Escolha do caractere */}
+        <div className="flex gap-1 sm:gap-2 overflow-x-auto max-w-full px-2 pb-1">
+          {characters.map((option, optionIndex) => (
+            <button
+              key={option}
+              onClick={() => setSelected(optionIndex)}
+              className={`flex-shrink-0 w-9 h-9 sm:w-11 sm:h-11 rounded-xl text-lg sm:text-2xl font-bold ${
+                optionIndex === index ? 'bg-white text-violet-700' : 'bg-white/20 hover:bg-white/30'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-2">
+          {set === 'letters' && (
+            <button
+              onClick={() => setLetterCase(letterCase === 'upper' ? 'lower' : 'upper')}
+              className={optionClass(false)}
+            >
+              {letterCase === 'upper' ? 'Aa → a' : 'Aa → A'}
+            </button>
+          )}
+          <button onClick={() => setDemoRun((run) => run + 1)} disabled={isDemo} className={optionClass(false)}>
+            ▶️ {t('tracing.demo') || 'Ver como se faz'}
+          </button>
+          <button onClick={sayCharacter} className={optionClass(false)}>
+            🔊 {character}
+          </button>
+        </div>
+
+        <p className="text-sm sm:text-lg font-semibold opacity-90">
+          {isDemo
+            ? t('tracing.watch') || 'Veja como se faz...'
+            : t('tracing.instructions', { current: Math.min(strokeIndex + 1, template.length), total: template.length })}
+        </p>
+
+        {/* Área de traçado: dedo, caneta ou mouse */}
+        <motion.canvas
+          ref={canvasRef}
+          width={CANVAS_SIZE}
+          height={CANVAS_SIZE}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          animate={feedback === 'incorrect' ? { x: [0, -8, 8, 0] } : feedback === 'correct' ? { scale: [1, 1.05, 1] } : {}}
+          transition={{ duration: 0.4 }}
+          className="bg-white rounded-3xl shadow-2xl touch-none w-[min(88vw,55vh)] h-[min(88vw,55vh)]"
+        />
+
+        {feedback === 'correct' && (
+          <>
+            <motion.div
+              initial={{ opacity: 0, scale: 0.5 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="py-2 sm:py-3 px-6 rounded-full bg-green-500/80 text-lg sm:text-2xl font-bold"
+            >
+              🎉 {t('quiz.correct') || 'Parabéns!'}
+            </motion.div>
+            <Confetti count={60} />
+          </>
+        )}
+      </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,47 @@
+/// <reference lib="webworker" />
+/**
+ * Service worker do AprendePlay
+ * - Pré-cache do app (HTML, JS das rotas lazy, CSS, imagens e ícones OpenMoji do bundle)
+ * - Cache dos ícones de temas carregados pelo usuário (os sons são sintetizados)
+ * - Cache dos áudios gravados (public/audio), baixados só quando faltam vozes no dispositivo
+ * - Atualização só quando o usuário aceita (mensagem SKIP_WAITING)
+ */
+import { precacheAndRoute, cleanupOutdatedCaches, createHandlerBoundToURL } from 'workbox-precaching'
+import { registerRoute, NavigationRoute } from 'workbox-routing'
+import { CacheFirst } from 'workbox-strategies'
+import { CacheableResponsePlugin } from 'workbox-cacheable-response'
+
+declare let self: ServiceWorkerGlobalScope
+
+const ASSETS_CACHE = 'aprendeplay-assets'
+
+precacheAndRoute(self.__WB_MANIFEST)
+cleanupOutdatedCaches()
+
+// SPA: qualquer navegação responde com o index.html em cache
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html')))
+
+// Ícones de temas carregados pelo usuário que não estão no bundle: cache primeiro
+registerRoute(
+  ({ url }) => url.hostname === 'cdn.jsdelivr.net' && url.pathname.startsWith('/npm/openmoji@'),
+  new CacheFirst({
+    cacheName: ASSETS_CACHE,
+    // Status 0: respostas opacas (<img> sem CORS)
+    plugins: [new CacheableResponsePlugin({ statuses: [0, 200] })],
+  })
+)
+
+// Áudios gravados: só são pedidos em dispositivos sem voz para o idioma, então ficam fora do pré-cache
+registerRoute(
+  ({ url, request }) => url.origin === self.location.origin && request.destination === 'audio',
+  new CacheFirst({
+    cacheName: ASSETS_CACHE,
+    plugins: [new CacheableResponsePlugin({ statuses: [200] })],
+  })
+)
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting()
+  }
+})
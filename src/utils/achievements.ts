@@ -0,0 +1,182 @@
+import { useSyncExternalStore } from 'react'
+import { achievements, getSourceItems, type Achievement } from '../content'
+import { getProfilesState, subscribeProfiles, loadProfileData, saveProfileData } from './profiles'
+import { subscribeGameEvents, type TimedGameEvent } from './gameEvents'
+import { toDayKey } from './progress'
+
+/**
+ * Conquistas e figurinhas
+ * As definições ficam em src/content/achievements.json; aqui os eventos dos jogos
+ * atualizam o progresso de cada uma e as completas viram figurinhas do perfil ativo
+ */
+
+interface AchievementProgress {
+  value: number
+  /** Valores já vistos (condição distinct) */
+  values?: string[]
+  /** Último dia com evento (condição consecutiveDays) */
+  lastDay?: string
+}
+
+export interface AchievementsData {
+  /** Id da conquista → quando foi ganha */
+  unlocked: Record<string, number>
+  progress: Record<string, AchievementProgress>
+}
+
+interface AchievementsState {
+  profileId: string | null
+  data: AchievementsData
+  /** Conquistas ganhas agora, esperando a animação */
+  pending: Achievement[]
+}
+
+const DATA_NAME = 'achievements'
+
+const emptyData = (): AchievementsData => ({ unlocked: {}, progress: {} })
+
+const listeners = new Set<() => void>()
+let state: AchievementsState = { profileId: getProfilesState().activeId, data: emptyData(), pending: [] }
+
+function setState(changes: Partial<AchievementsState>) {
+  state = { ...state, ...changes }
+  listeners.forEach((listener) => listener())
+}
+
+async function loadAchievements(profileId: string | null): Promise<void> {
+  try {
+    const data = await loadProfileData<AchievementsData>(profileId, DATA_NAME)
+    if (getProfilesState().activeId === profileId) {
+      setState({ profileId, data: data ?? emptyData(), pending: [] })
+    }
+  } catch (error) {
+    console.warn('Erro ao carregar conquistas:', error)
+  }
+}
+
+// Eventos esperam o progresso do perfil ser carregado, para não sobrescrevê-lo
+let ready = loadAchievements(state.profileId)
+subscribeProfiles(() => {
+  const { activeId } = getProfilesState()
+  if (activeId !== state.profileId) {
+    state = { profileId: activeId, data: emptyData(), pending: [] }
+    ready = loadAchievements(activeId)
+  }
+})
+
+/**
+ * Quanto falta para a conquista: alvo 'all' vira a quantidade de itens da origem
+ */
+export function getAchievementTarget(achievement: Achievement): number {
+  const { criteria } = achievement
+  if (criteria.target === 'all') return getSourceItems(String(criteria.where?.source)).length
+  return criteria.target
+}
+
+/**
+ * Campos de cada tipo de evento que as condições (where e field) podem usar
+ */
+function eventFields(event: TimedGameEvent): Record<string, string | number | boolean> {
+  switch (event.type) {
+    case 'answer':
+      return { game: event.game, correct: event.correct, streak: event.streak }
+    case 'round-completed':
+      return { game: event.game, perfect: event.perfect }
+    case 'item-heard':
+      return { source: event.source, itemId: event.itemId }
+  }
+}
+
+function matches(achievement: Achievement, event: TimedGameEvent): boolean {
+  const { criteria } = achievement
+  if (criteria.event !== event.type) return false
+  const fields = eventFields(event)
+  return Object.entries(criteria.where ?? {}).every(([key, value]) => fields[key] === value)
+}
+
+/**
+ * Progresso depois do evento; devolve o mesmo objeto quando nada muda
+ */
+function nextProgress(achievement: Achievement, progress: AchievementProgress, event: TimedGameEvent): AchievementProgress {
+  const { criteria } = achievement
+  const fields = eventFields(event)
+  switch (criteria.type) {
+    case 'count':
+      return { value: progress.value + 1 }
+    case 'max': {
+      const value = Math.max(progress.value, Number(fields[criteria.field]) || 0)
+      return value === progress.value ? progress : { value }
+    }
+    case 'distinct': {
+      const value = String(fields[criteria.field])
+      if (progress.values?.includes(value)) return progress
+      const values = [...(progress.values ?? []), value]
+      return { value: values.length, values }
+    }
+    case 'consecutiveDays': {
+      const today = toDayKey(event.timestamp)
+      if (progress.lastDay === today) return progress
+      const yesterday = new Date(event.timestamp)
+      yesterday.setDate(yesterday.getDate() - 1)
+      const continues = progress.lastDay === toDayKey(yesterday.getTime())
+      return { value: continues ? progress.value + 1 : 1, lastDay: today }
+    }
+  }
+}
+
+function handleEvent(event: TimedGameEvent) {
+  const unlocked = { ...state.data.unlocked }
+  const progress = { ...state.data.progress }
+  const newlyUnlocked: Achievement[] = []
+  let changed = false
+
+  achievements.forEach((achievement) => {
+    if (unlocked[achievement.id] || !matches(achievement, event)) return
+    const current = progress[achievement.id] ?? { value: 0 }
+    const next = nextProgress(achievement, current, event)
+    if (next === current) return
+    progress[achievement.id] = next
+    changed = true
+    if (next.value >= getAchievementTarget(achievement)) {
+      unlocked[achievement.id] = event.timestamp
+      newlyUnlocked.push(achievement)
+    }
+  })
+
+  // Só grava quando alguma conquista mudou (a maioria dos eventos não mexe em nada)
+  if (!changed) return
+  const data = { unlocked, progress }
+  setState({ data, pending: [...state.pending, ...newlyUnlocked] })
+  saveProfileData(state.profileId, DATA_NAME, data).catch((error) => console.warn('Erro ao salvar conquistas:', error))
+}
+
+subscribeGameEvents((event) => {
+  ready.then(() => handleEvent(event))
+})
+
+export function getAchievementsState(): AchievementsState {
+  return state
+}
+
+export function subscribeAchievements(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function useAchievements(): AchievementsState {
+  return useSyncExternalStore(subscribeAchievements, getAchievementsState)
+}
+
+/**
+ * Progresso atual de uma conquista do perfil ativo
+ */
+export function getAchievementProgress(achievement: Achievement): number {
+  return state.data.progress[achievement.id]?.value ?? 0
+}
+
+/**
+ * Tira da fila a conquista cuja animação já foi mostrada
+ */
+export function dismissUnlock(): void {
+  setState({ pending: state.pending.slice(1) })
+}
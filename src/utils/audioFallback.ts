@@ -0,0 +1,81 @@
+/**
+ * Áudios gravados usados quando não há voz do dispositivo para o idioma
+ * O manifesto (public/audio/manifest.json) é carregado na primeira vez que é necessário
+ */
+
+import { toLanguageCode } from '../i18n/languages'
+import type { AudioManifest } from '../content'
+
+const AUDIO_BASE_URL = `${import.meta.env.BASE_URL}audio/`
+
+let manifestPromise: Promise<AudioManifest | null> | null = null
+
+function loadManifest(): Promise<AudioManifest | null> {
+  if (!manifestPromise) {
+    manifestPromise = fetch(`${AUDIO_BASE_URL}manifest.json`)
+      .then((response) => (response.ok ? (response.json() as Promise<AudioManifest>) : null))
+      .catch((error) => {
+        console.warn('Erro ao carregar manifesto de áudio:', error)
+        return null
+      })
+  }
+  return manifestPromise
+}
+
+/**
+ * URL do áudio gravado de uma chave (ver getAudioKey), ou null se não houver
+ */
+export async function getFallbackAudioUrl(lang: string, key: string): Promise<string | null> {
+  const manifest = await loadManifest()
+  const file = manifest?.languages[toLanguageCode(lang)]?.[key]
+  return file ? AUDIO_BASE_URL + file : null
+}
+
+/**
+ * Se o idioma tem áudios gravados
+ */
+export async function hasFallbackAudio(lang: string): Promise<boolean> {
+  const manifest = await loadManifest()
+  return Boolean(manifest?.languages[toLanguageCode(lang)])
+}
+
+// Áudio tocando agora, para poder interromper junto com a fala
+let current: { audio: HTMLAudioElement; finish: () => void } | null = null
+
+/**
+ * Toca um arquivo de áudio; resolve quando termina, falha ou é interrompido
+ */
+export function playAudioFile(url: string, volume: number): Promise<void> {
+  stopAudioFile()
+
+  return new Promise((resolve) => {
+    const audio = new Audio(url)
+    audio.volume = Math.max(0, Math.min(1, volume))
+
+    const finish = () => {
+      if (current?.audio === audio) current = null
+      resolve()
+    }
+    audio.onended = finish
+    audio.onerror = () => {
+      console.warn('Erro ao tocar áudio gravado:', url)
+      finish()
+    }
+    current = { audio, finish }
+
+    audio.play().catch((error) => {
+      console.warn('Erro ao tocar áudio gravado:', error)
+      finish()
+    })
+  })
+}
+
+/**
+ * Interrompe o áudio gravado que estiver tocando
+ */
+export function stopAudioFile(): void {
+  if (!current) return
+  const { audio, finish } = current
+  audio.pause()
+  finish()
+}
@@ -0,0 +1,333 @@
+import { isLanguageCode } from '../i18n/languages'
+import { validatePack, type ContentIssue, type ContentPack, type Translations } from '../content'
+import { getCustomPacks, installPack, removePack } from '../content/customPacks'
+import { isBuiltInPack } from '../content/packs'
+import { dbGetAll, dbGetAllByIndex, dbPut, dbDelete, dbDeleteByIndex, isDatabaseSupported, PROFILE_INDEX } from './db'
+import { getSettings, updateSettings, DEFAULT_SETTINGS, type Settings } from './settings'
+import { getProfilesState, refreshProfiles, AGE_BANDS, type Profile, type ProfileDataRecord } from './profiles'
+import { reloadLearningEvents, type LearningEvent } from './learning'
+
+/**
+ * Backup do app: perfis, dados e histórico de cada criança, configurações e pacotes instalados
+ * Serve para trocar de aparelho ou juntar resultados de vários aparelhos
+ * Gravações de voz têm exportação própria (src/utils/recordings.ts), por causa do tamanho
+ */
+
+const BACKUP_FORMAT = 'aprendeplay-backup'
+export const BACKUP_VERSION = 1
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT
+  version: typeof BACKUP_VERSION
+  exportedAt: number
+  settings: Settings
+  profiles: Profile[]
+  profileData: ProfileDataRecord[]
+  /** Sem o id local: cada aparelho numera os próprios eventos */
+  learningEvents: Omit<LearningEvent, 'id'>[]
+  customPacks: ContentPack[]
+}
+
+/** merge: junta com o que já existe; overwrite: substitui tudo pelo backup */
+export type ImportStrategy = 'merge' | 'overwrite'
+
+export interface ImportSummary {
+  profilesAdded: string[]
+  profilesUpdated: string[]
+  profilesRemoved: string[]
+  progressEntries: number
+  eventsAdded: number
+  /** Títulos dos pacotes, para mostrar no idioma atual */
+  packsAdded: Translations[]
+  packsReplaced: Translations[]
+  packsRemoved: Translations[]
+  settingsReplaced: boolean
+  /** Limites de tempo do backup no lugar dos deste aparelho */
+  limitsReplaced: boolean
+}
+
+export interface ImportPlan {
+  strategy: ImportStrategy
+  summary: ImportSummary
+  settings: Settings | null
+  profilesToDelete: string[]
+  profiles: Profile[]
+  profileData: ProfileDataRecord[]
+  learningEvents: Omit<LearningEvent, 'id'>[]
+  packsToRemove: string[]
+  packs: ContentPack[]
+}
+
+/**
+ * Erro lançado quando o arquivo não é um backup válido
+ */
+export class BackupValidationError extends Error {
+  issues: ContentIssue[]
+
+  constructor(issues: ContentIssue[]) {
+    super(`Backup inválido (${issues.length} problema(s))`)
+    this.name = 'BackupValidationError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Gera o backup com tudo o que está salvo no aparelho (o convidado não tem dados salvos)
+ */
+export async function exportBackup(): Promise<Blob> {
+  const hasDatabase = isDatabaseSupported()
+  const events = hasDatabase ? await dbGetAll<LearningEvent>('learningEvents') : []
+  const backup: Backup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    settings: getSettings(),
+    profiles: hasDatabase ? await dbGetAll<Profile>('profiles') : [],
+    profileData: hasDatabase ? await dbGetAll<ProfileDataRecord>('profileData') : [],
+    learningEvents: events.map(({ id: _id, ...event }) => event),
+    customPacks: getCustomPacks(),
+  }
+  return new Blob([JSON.stringify(backup)], { type: 'application/json' })
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function readSettings(value: unknown, issues: ContentIssue[]): Settings {
+  if (!isRecord(value)) {
+    issues.push({ source: 'settings', message: 'as configurações devem ser um objeto', code: 'settingsNotObject' })
+    return { ...DEFAULT_SETTINGS }
+  }
+  // Campos que faltam (backup de versão antiga) ficam com o padrão
+  const settings: Settings = { ...DEFAULT_SETTINGS }
+  for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]) {
+    if (value[key] === undefined) continue
+    if (typeof value[key] !== typeof DEFAULT_SETTINGS[key]) {
+      issues.push({ source: 'settings', id: key, message: 'tipo inválido', code: 'invalidType' })
+      continue
+    }
+    Object.assign(settings, { [key]: value[key] })
+  }
+  return settings
+}
+
+function isProfile(value: unknown): value is Profile {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.avatar === 'string' &&
+    isLanguageCode(value.language) &&
+    AGE_BANDS.includes(value.ageBand as Profile['ageBand']) &&
+    typeof value.createdAt === 'number'
+  )
+}
+
+function isLearningEvent(value: unknown): value is Omit<LearningEvent, 'id'> {
+  return (
+    isRecord(value) &&
+    typeof value.profileId === 'string' &&
+    typeof value.game === 'string' &&
+    typeof value.itemKey === 'string' &&
+    isLanguageCode(value.lang) &&
+    typeof value.correct === 'boolean' &&
+    typeof value.attempt === 'number' &&
+    typeof value.responseTimeMs === 'number' &&
+    typeof value.timestamp === 'number'
+  )
+}
+
+/**
+ * Lê e valida um arquivo de backup
+ * Só existe a versão 1; quando o formato mudar, a conversão das versões antigas entra aqui
+ * @throws BackupValidationError se o arquivo for inválido
+ */
+export async function readBackupFile(file: File): Promise<Backup> {
+  let data: unknown
+  try {
+    data = JSON.parse(await file.text())
+  } catch (error) {
+    const message = (error as Error).message
+    throw new BackupValidationError([
+      { source: file.name, message: `JSON inválido: ${message}`, code: 'invalidJson', params: { error: message } },
+    ])
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT || typeof data.version !== 'number') {
+    throw new BackupValidationError([{ source: file.name, message: 'o arquivo não é um backup do AprendePlay', code: 'notBackup' }])
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new BackupValidationError([
+      {
+        source: file.name,
+        message: `backup da versão ${data.version}; atualize o app para importá-lo`,
+        code: 'newerBackup',
+        params: { version: data.version },
+      },
+    ])
+  }
+  if (data.version !== BACKUP_VERSION) {
+    throw new BackupValidationError([
+      {
+        source: file.name,
+        message: `versão ${data.version} de backup não suportada`,
+        code: 'unsupportedBackup',
+        params: { version: data.version },
+      },
+    ])
+  }
+  const raw = data
+
+  const issues: ContentIssue[] = []
+  const listOf = (key: string): unknown[] => {
+    if (Array.isArray(raw[key])) return raw[key] as unknown[]
+    issues.push({ source: key, message: 'deve ser uma lista', code: 'notList' })
+    return []
+  }
+
+  const settings = readSettings(raw.settings, issues)
+
+  const profiles = listOf('profiles')
+  profiles.forEach((profile, index) => {
+    if (!isProfile(profile)) issues.push({ source: 'profiles', id: String(index), message: 'perfil inválido', code: 'invalidProfile' })
+  })
+  const profileIds = new Set(profiles.filter(isProfile).map((profile) => profile.id))
+
+  const profileData = listOf('profileData')
+  profileData.forEach((record, index) => {
+    const value = record as Partial<ProfileDataRecord>
+    if (!isRecord(record) || typeof value.name !== 'string' || !profileIds.has(value.profileId as string)) {
+      issues.push({ source: 'profileData', id: String(index), message: 'dado sem perfil correspondente', code: 'orphanData' })
+    }
+  })
+
+  const learningEvents = listOf('learningEvents')
+  learningEvents.forEach((event, index) => {
+    if (!isLearningEvent(event) || !profileIds.has(event.profileId as string)) {
+      issues.push({
+        source: 'learningEvents',
+        id: String(index),
+        message: 'evento inválido ou sem perfil correspondente',
+        code: 'invalidEvent',
+      })
+    }
+  })
+
+  const customPacks = listOf('customPacks')
+  customPacks.forEach((pack, index) => {
+    issues.push(...validatePack(`customPacks[${index}]`, pack))
+    if (isRecord(pack) && typeof pack.id === 'string' && isBuiltInPack(pack.id)) {
+      issues.push({
+        source: `customPacks[${index}]`,
+        message: `o id "${pack.id}" pertence a um pacote embutido`,
+        code: 'builtInPackId',
+        params: { id: pack.id },
+      })
+    }
+  })
+
+  if (issues.length > 0) throw new BackupValidationError(issues)
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+    settings,
+    profiles: profiles as Profile[],
+    profileData: (profileData as ProfileDataRecord[]).map((record) => ({
+      ...record,
+      id: `${record.profileId}:${record.name}`,
+    })),
+    learningEvents: (learningEvents as LearningEvent[]).map(({ id: _id, ...event }) => event),
+    customPacks: customPacks as ContentPack[],
+  }
+}
+
+// Mesmo evento importado duas vezes (ex: backup do mesmo aparelho)
+const eventKey = (event: Omit<LearningEvent, 'id'>) =>
+  [event.profileId, event.timestamp, event.game, event.itemKey, event.expected ?? '', event.chosen ?? ''].join('|')
+
+/**
+ * Calcula o que a importação vai mudar, sem alterar nada
+ * Ao substituir, os limites de tempo deste aparelho ficam, a não ser que um adulto peça replaceLimits
+ */
+export async function planImport(backup: Backup, strategy: ImportStrategy, replaceLimits = false): Promise<ImportPlan> {
+  const existingProfiles = getProfilesState().profiles
+  const existingIds = new Set(existingProfiles.map((profile) => profile.id))
+  const importedIds = new Set(backup.profiles.map((profile) => profile.id))
+  const existingPacks = getCustomPacks()
+  const existingPackIds = new Set(existingPacks.map((pack) => pack.id))
+  const overwrite = strategy === 'overwrite'
+
+  // Ao juntar, o que já existe no aparelho é mantido e só o que falta é adicionado
+  let profileData = backup.profileData
+  let learningEvents = backup.learningEvents
+  if (!overwrite && isDatabaseSupported()) {
+    const existingData = new Set((await dbGetAll<ProfileDataRecord>('profileData')).map((record) => record.id))
+    profileData = profileData.filter((record) => !existingData.has(record.id))
+
+    const existingEvents = new Set<string>()
+    for (const id of importedIds) {
+      if (!existingIds.has(id)) continue
+      const events = await dbGetAllByIndex<LearningEvent>('learningEvents', PROFILE_INDEX, id)
+      events.forEach((event) => existingEvents.add(eventKey(event)))
+    }
+    learningEvents = learningEvents.filter((event) => !existingEvents.has(eventKey(event)))
+  }
+
+  const packsToRemove = overwrite
+    ? existingPacks.filter((pack) => !backup.customPacks.some((imported) => imported.id === pack.id)).map((pack) => pack.id)
+    : []
+
+  const { dailyLimitMinutes, sessionLimitMinutes } = getSettings()
+  const settings = replaceLimits ? backup.settings : { ...backup.settings, dailyLimitMinutes, sessionLimitMinutes }
+
+  return {
+    strategy,
+    settings: overwrite ? settings : null,
+    profilesToDelete: overwrite ? [...existingIds] : [],
+    profiles: backup.profiles,
+    profileData,
+    learningEvents,
+    packsToRemove,
+    packs: backup.customPacks,
+    summary: {
+      profilesAdded: backup.profiles.filter((profile) => !existingIds.has(profile.id)).map((profile) => profile.name),
+      profilesUpdated: backup.profiles.filter((profile) => existingIds.has(profile.id)).map((profile) => profile.name),
+      profilesRemoved: overwrite
+        ? existingProfiles.filter((profile) => !importedIds.has(profile.id)).map((profile) => profile.name)
+        : [],
+      progressEntries: profileData.length,
+      eventsAdded: learningEvents.length,
+      packsAdded: backup.customPacks.filter((pack) => !existingPackIds.has(pack.id)).map((pack) => pack.title),
+      packsReplaced: backup.customPacks.filter((pack) => existingPackIds.has(pack.id)).map((pack) => pack.title),
+      packsRemoved: existingPacks.filter((pack) => packsToRemove.includes(pack.id)).map((pack) => pack.title),
+      settingsReplaced: overwrite,
+      limitsReplaced: overwrite && replaceLimits,
+    },
+  }
+}
+
+/**
+ * Aplica uma importação calculada por planImport
+ */
+export async function applyImport(plan: ImportPlan): Promise<void> {
+  if (plan.settings) updateSettings(plan.settings)
+
+  plan.packsToRemove.forEach(removePack)
+  plan.packs.forEach((pack) => installPack(pack, 'backup'))
+
+  if (isDatabaseSupported()) {
+    for (const id of plan.profilesToDelete) {
+      await dbDelete('profiles', id)
+      await dbDeleteByIndex('profileData', PROFILE_INDEX, id)
+      await dbDeleteByIndex('learningEvents', PROFILE_INDEX, id)
+    }
+    for (const profile of plan.profiles) await dbPut('profiles', profile)
+    for (const record of plan.profileData) await dbPut('profileData', record)
+    for (const event of plan.learningEvents) await dbPut('learningEvents', event)
+  }
+
+  await refreshProfiles()
+  await reloadLearningEvents()
+}
@@ -0,0 +1,93 @@
+import type { ColorItem } from '../content'
+import type { AgeBand } from './profiles'
+
+/**
+ * Níveis de dificuldade do Quiz de Cores
+ * O nível sobe com acertos seguidos e desce quando a criança erra muito
+ */
+
+export interface ColorQuizLevel {
+  /** Quantidade de opções (limitada ao total de cores) */
+  options: number
+  /** Quantas opções erradas são as cores mais parecidas com a certa */
+  similarDistractors: number
+  /** Mostra o nome de cada cor embaixo da opção */
+  showNames: boolean
+}
+
+export const COLOR_QUIZ_LEVELS: ColorQuizLevel[] = [
+  { options: 2, similarDistractors: 0, showNames: true },
+  { options: 3, similarDistractors: 0, showNames: true },
+  { options: 4, similarDistractors: 1, showNames: true },
+  { options: 4, similarDistractors: 2, showNames: false },
+  { options: 6, similarDistractors: 3, showNames: false },
+  { options: Infinity, similarDistractors: Infinity, showNames: false },
+]
+
+// Acertos de primeira seguidos para subir de nível
+const PROMOTE_STREAK = 5
+// Respostas recentes olhadas para descer de nível, e a taxa de erro que faz descer
+export const DEMOTE_WINDOW = 6
+const DEMOTE_ERROR_RATE = 0.5
+
+const LEVEL_BY_AGE: Record<AgeBand, number> = { '2-3': 0, '4-5': 1, '6-7': 2, '8+': 3 }
+
+/**
+ * Nível inicial pela faixa de idade do perfil (convidado começa no segundo nível)
+ */
+export function getInitialColorLevel(ageBand?: AgeBand): number {
+  return ageBand ? LEVEL_BY_AGE[ageBand] : 1
+}
+
+export function clampColorLevel(level: number): number {
+  return Math.max(0, Math.min(COLOR_QUIZ_LEVELS.length - 1, Math.round(level)))
+}
+
+/**
+ * Próximo nível a partir das respostas recentes (true = acerto de primeira, mais recente por último)
+ * Retorna o mesmo nível enquanto não há respostas suficientes para decidir
+ */
+export function getNextColorLevel(level: number, recentAnswers: boolean[]): number {
+  const lastStreak = recentAnswers.slice(-PROMOTE_STREAK)
+  if (lastStreak.length === PROMOTE_STREAK && lastStreak.every(Boolean)) {
+    return clampColorLevel(level + 1)
+  }
+  const window = recentAnswers.slice(-DEMOTE_WINDOW)
+  const errors = window.filter((correct) => !correct).length
+  if (window.length === DEMOTE_WINDOW && errors / window.length >= DEMOTE_ERROR_RATE) {
+    return clampColorLevel(level - 1)
+  }
+  return level
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+/**
+ * Distância entre duas cores como o olho percebe (fórmula "redmean")
+ */
+export function colorDistance(a: string, b: string): number {
+  const [r1, g1, b1] = hexToRgb(a)
+  const [r2, g2, b2] = hexToRgb(b)
+  const meanRed = (r1 + r2) / 2
+  const dr = r1 - r2
+  const dg = g1 - g2
+  const db = b1 - b2
+  return Math.sqrt((2 + meanRed / 256) * dr * dr + 4 * dg * dg + (2 + (255 - meanRed) / 256) * db * db)
+}
+
+const shuffle = <T>(list: T[]): T[] => [...list].sort(() => Math.random() - 0.5)
+
+/**
+ * Opções de uma rodada: a cor certa, as mais parecidas com ela e o resto sorteado, embaralhadas
+ */
+export function buildColorOptions(target: ColorItem, all: readonly ColorItem[], level: ColorQuizLevel): ColorItem[] {
+  const others = all.filter((color) => color.id !== target.id)
+  const distractorCount = Math.min(level.options - 1, others.length)
+  const bySimilarity = [...others].sort((a, b) => colorDistance(target.color, a.color) - colorDistance(target.color, b.color))
+  const similar = bySimilarity.slice(0, Math.min(level.similarDistractors, distractorCount))
+  const rest = shuffle(others.filter((color) => !similar.includes(color))).slice(0, distractorCount - similar.length)
+  return shuffle([target, ...similar, ...rest])
+}
@@ -0,0 +1,82 @@
+import type { ColorItem } from '../content'
+
+/**
+ * Regras da mistura de tintas
+ * Os resultados apontam para cores de colors.json (nome e hex vêm dos dados);
+ * branco e preto não viram cores novas, só deixam a outra cor clara ou escura
+ */
+
+export type Shade = 'light' | 'dark'
+
+export interface MixResult {
+  /** Id da cor em colors.json */
+  colorId: string
+  shade: Shade | null
+}
+
+/** Tintas que a criança pode colocar na tigela */
+export const PAINT_COLORS = ['red', 'yellow', 'blue', 'white', 'black']
+
+// Cores secundárias: chave com os ids em ordem alfabética
+const SECONDARY_COLORS: Record<string, string> = {
+  'red+yellow': 'orange',
+  'blue+yellow': 'green',
+  'blue+red': 'purple',
+}
+
+// Quanto de branco ou preto entra no hex das cores claras e escuras
+const SHADE_AMOUNT = 0.45
+
+/**
+ * Resultado de misturar duas tintas
+ * Branco com preto fica um preto claro (não há cinza em colors.json)
+ */
+export function mixColors(first: string, second: string): MixResult {
+  if (first === second) return { colorId: first, shade: null }
+  const [a, b] = [first, second].sort()
+  if (a === 'black' && b === 'white') return { colorId: 'black', shade: 'light' }
+  if (a === 'white' || b === 'white') return { colorId: a === 'white' ? b : a, shade: 'light' }
+  if (a === 'black' || b === 'black') return { colorId: a === 'black' ? b : a, shade: 'dark' }
+  return { colorId: SECONDARY_COLORS[`${a}+${b}`] ?? first, shade: null }
+}
+
+export function isSameMix(a: MixResult, b: MixResult): boolean {
+  return a.colorId === b.colorId && a.shade === b.shade
+}
+
+/**
+ * Mistura dois hex (#RRGGBB); amount = quanto do segundo entra
+ */
+export function blendHex(first: string, second: string, amount: number): string {
+  const channels = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16))
+  const [from, to] = [channels(first), channels(second)]
+  return `#${from
+    .map((value, i) => Math.round(value + (to[i] - value) * amount).toString(16).padStart(2, '0'))
+    .join('')}`
+}
+
+/**
+ * Hex do resultado: a cor de colors.json, clareada ou escurecida
+ */
+export function getMixHex(result: MixResult, colors: ColorItem[]): string {
+  const base = colors.find((color) => color.id === result.colorId)?.color ?? '#FFFFFF'
+  if (result.shade === 'light') return blendHex(base, '#FFFFFF', SHADE_AMOUNT)
+  if (result.shade === 'dark') return blendHex(base, '#000000', SHADE_AMOUNT)
+  return base
+}
+
+/**
+ * Cores que dá para fazer misturando duas tintas diferentes (desafios do modo "faça a cor")
+ * O preto claro de branco com preto fica de fora
+ */
+export function getChallengeTargets(): MixResult[] {
+  const targets: MixResult[] = []
+  PAINT_COLORS.forEach((first, i) => {
+    PAINT_COLORS.slice(i + 1).forEach((second) => {
+      const result = mixColors(first, second)
+      if (result.colorId === 'black') return
+      if (!targets.some((target) => isSameMix(target, result))) targets.push(result)
+    })
+  })
+  return targets
+}
@@ -0,0 +1,108 @@
+/**
+ * Banco IndexedDB do app
+ * Guarda dados grandes ou binários que não cabem bem no localStorage (ex: gravações de voz)
+ * e os dados de cada criança (perfis e dados por perfil)
+ */
+
+const DB_NAME = 'aprendeplay'
+const DB_VERSION = 3
+
+export type StoreName = 'recordings' | 'profiles' | 'profileData' | 'learningEvents'
+
+// Índice de 'profileData' e 'learningEvents' para achar todos os dados de um perfil
+export const PROFILE_INDEX = 'profileId'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function isDatabaseSupported(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      // Cada versão cria só o que mudou, para bancos antigos migrarem em sequência
+      request.onupgradeneeded = (event) => {
+        const db = request.result
+        if (event.oldVersion < 1) {
+          db.createObjectStore('recordings', { keyPath: 'id' })
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore('profiles', { keyPath: 'id' })
+          db.createObjectStore('profileData', { keyPath: 'id' }).createIndex(PROFILE_INDEX, 'profileId')
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore('learningEvents', { keyPath: 'id', autoIncrement: true }).createIndex(PROFILE_INDEX, 'profileId')
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Permitir nova tentativa se a abertura falhar
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * Executa uma operação em um store e resolve quando a transação termina
+ */
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = action(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export function dbGet<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', (store) => store.get(key))
+}
+
+export function dbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore(storeName, 'readonly', (store) => store.getAll())
+}
+
+export function dbGetAllKeys(storeName: StoreName): Promise<IDBValidKey[]> {
+  return withStore(storeName, 'readonly', (store) => store.getAllKeys())
+}
+
+export async function dbPut<T>(storeName: StoreName, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.put(value))
+}
+
+export async function dbDelete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.delete(key))
+}
+
+export function dbGetAllByIndex<T>(storeName: StoreName, indexName: string, value: IDBValidKey): Promise<T[]> {
+  return withStore(storeName, 'readonly', (store) => store.index(indexName).getAll(value))
+}
+
+/**
+ * Apaga todos os registros com um valor no índice (ex: todos os dados de um perfil)
+ */
+export async function dbDeleteByIndex(storeName: StoreName, indexName: string, value: IDBValidKey): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => {
+    const request = store.index(indexName).openKeyCursor(value)
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (cursor) {
+        store.delete(cursor.primaryKey)
+        cursor.continue()
+      }
+    }
+    return request
+  })
+}
@@ -0,0 +1,26 @@
+/**
+ * Eventos dos jogos e das páginas de aprendizado
+ * Os jogos só emitem; quem precisa reagir (ex: conquistas) assina aqui
+ */
+
+export type GameEvent =
+  /** Resposta em um jogo; streak = sequência de acertos depois da resposta */
+  | { type: 'answer'; game: string; correct: boolean; streak: number }
+  /** Rodada terminada; perfect = sem nenhum erro na rodada */
+  | { type: 'round-completed'; game: string; perfect: boolean }
+  /** Card tocado e falado em um tema (source = id do tema) */
+  | { type: 'item-heard'; source: string; itemId: string }
+
+export type TimedGameEvent = GameEvent & { timestamp: number }
+
+const listeners = new Set<(event: TimedGameEvent) => void>()
+
+export function emitGameEvent(event: GameEvent): void {
+  const timed = { ...event, timestamp: Date.now() }
+  listeners.forEach((listener) => listener(timed))
+}
+
+export function subscribeGameEvents(listener: (event: TimedGameEvent) => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
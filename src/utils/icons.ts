@@ -0,0 +1,30 @@
+/**
+ * Resolução de ícones OpenMoji
+ * Os ícones usados pelo conteúdo embutido são copiados para src/assets/openmoji
+ * por generate-icons.js e entram no bundle; temas carregados pelo usuário podem
+ * usar outros códigos, que são buscados na CDN
+ */
+
+export const OPENMOJI_CDN = 'https://cdn.jsdelivr.net/npm/openmoji@15.0.0/color/svg'
+
+const bundledIcons = import.meta.glob<string>('../assets/openmoji/*.svg', {
+  eager: true,
+  query: '?url',
+  import: 'default',
+})
+
+// Código do ícone → URL final no bundle
+const ICON_URLS: Record<string, string> = Object.fromEntries(
+  Object.entries(bundledIcons).map(([file, url]) => [file.slice(file.lastIndexOf('/') + 1, -'.svg'.length), url])
+)
+
+export function isBundledIcon(code: string): boolean {
+  return code in ICON_URLS
+}
+
+/**
+ * URL da imagem de um código OpenMoji (ex: '1F534')
+ */
+export function getIconUrl(code: string): string {
+  return ICON_URLS[code] ?? `${OPENMOJI_CDN}/${code}.svg`
+}
@@ -0,0 +1,204 @@
+import { useSyncExternalStore } from 'react'
+import { toLanguageCode, type LanguageCode } from '../i18n/languages'
+import { isDatabaseSupported, dbGetAllByIndex, dbPut, PROFILE_INDEX } from './db'
+import { getProfilesState, subscribeProfiles } from './profiles'
+
+/**
+ * Eventos de aprendizado e domínio de cada item
+ * Cada resposta nos jogos vira um evento; o domínio por item e idioma é calculado a partir deles
+ * Eventos do convidado (sem perfil) ficam só na memória
+ */
+
+export interface LearningEvent {
+  id?: number
+  /** null = convidado */
+  profileId: string | null
+  /** Jogo que gerou o evento (ex: 'colors-quiz') */
+  game: string
+  /** Item perguntado (chave de getAudioKey, ex: 'colors:red') */
+  itemKey: string
+  lang: LanguageCode
+  correct: boolean
+  /** Tentativa na rodada: 1 = primeira tentativa */
+  attempt: number
+  /** Tempo desde a pergunta (ou desde a última resposta) até a resposta */
+  responseTimeMs: number
+  /** Parte esperada da resposta, quando o item tem partes (ex: sílaba 'BO' de 'words:ball') */
+  expected?: string
+  /** O que a criança escolheu (chave de outro item ou a parte tocada) */
+  chosen?: string
+  timestamp: number
+}
+
+export type LearningEventInput = Omit<LearningEvent, 'id' | 'profileId' | 'timestamp' | 'lang'> & { lang: string }
+
+export type MasteryLevel = 'new' | 'learning' | 'practicing' | 'mastered'
+
+export interface ItemMastery {
+  itemKey: string
+  lang: LanguageCode
+  level: MasteryLevel
+  attempts: number
+  correct: number
+  /** Acertos de primeira entre as rodadas recentes (0 a 1) */
+  recentAccuracy: number
+  averageResponseMs: number
+  /** Respostas erradas mais comuns (ex: confunde roxo com rosa) */
+  confusions: { chosen: string; count: number }[]
+  lastSeen: number
+}
+
+// Quantidade de respostas recentes consideradas no nível de domínio
+const RECENT_WINDOW = 8
+const MASTERED_MIN_ANSWERS = 5
+const MASTERED_ACCURACY = 0.85
+const PRACTICING_ACCURACY = 0.5
+
+interface LearningState {
+  profileId: string | null
+  events: LearningEvent[]
+}
+
+const listeners = new Set<() => void>()
+let state: LearningState = { profileId: getProfilesState().activeId, events: [] }
+
+function setState(next: LearningState) {
+  state = next
+  listeners.forEach((listener) => listener())
+}
+
+async function loadEvents(profileId: string | null): Promise<void> {
+  // Convidado começa do zero a cada troca de perfil
+  if (!profileId || !isDatabaseSupported()) {
+    setState({ profileId, events: [] })
+    return
+  }
+  try {
+    const events = await dbGetAllByIndex<LearningEvent>('learningEvents', PROFILE_INDEX, profileId)
+    // Ignorar se o perfil mudou enquanto carregava
+    if (getProfilesState().activeId === profileId) {
+      setState({ profileId, events: events.sort((a, b) => a.timestamp - b.timestamp) })
+    }
+  } catch (error) {
+    console.warn('Erro ao carregar eventos de aprendizado:', error)
+  }
+}
+
+loadEvents(state.profileId)
+subscribeProfiles(() => {
+  const { activeId } = getProfilesState()
+  if (activeId !== state.profileId) {
+    state = { profileId: activeId, events: [] }
+    loadEvents(activeId)
+  }
+})
+
+/**
+ * Relê os eventos do perfil ativo (ex: depois de importar um backup)
+ */
+export function reloadLearningEvents(): Promise<void> {
+  return loadEvents(state.profileId)
+}
+
+/**
+ * Eventos de qualquer perfil (ex: painel dos pais); o convidado só tem os da sessão atual
+ */
+export async function loadLearningEvents(profileId: string | null): Promise<LearningEvent[]> {
+  if (profileId === state.profileId) return state.events
+  if (!profileId || !isDatabaseSupported()) return []
+  const events = await dbGetAllByIndex<LearningEvent>('learningEvents', PROFILE_INDEX, profileId)
+  return events.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+export function getLearningEvents(): LearningEvent[] {
+  return state.events
+}
+
+export function subscribeLearning(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function useLearningEvents(): LearningEvent[] {
+  return useSyncExternalStore(subscribeLearning, getLearningEvents)
+}
+
+/**
+ * Registra uma resposta do perfil ativo
+ */
+export function recordLearningEvent(input: LearningEventInput): void {
+  const event: LearningEvent = {
+    ...input,
+    lang: toLanguageCode(input.lang),
+    profileId: state.profileId,
+    timestamp: Date.now(),
+  }
+  setState({ ...state, events: [...state.events, event] })
+
+  if (event.profileId && isDatabaseSupported()) {
+    dbPut('learningEvents', event).catch((error) => console.warn('Erro ao salvar evento de aprendizado:', error))
+  }
+}
+
+function levelFor(answers: LearningEvent[], recentAccuracy: number): MasteryLevel {
+  if (answers.length === 0) return 'new'
+  if (answers.length >= MASTERED_MIN_ANSWERS && recentAccuracy >= MASTERED_ACCURACY) return 'mastered'
+  if (recentAccuracy >= PRACTICING_ACCURACY) return 'practicing'
+  return 'learning'
+}
+
+function masteryOf(itemKey: string, lang: LanguageCode, itemEvents: LearningEvent[]): ItemMastery {
+  // Domínio conta a primeira tentativa de cada pergunta; as seguintes são ajuda
+  const firstTries = itemEvents.filter((event) => event.attempt === 1)
+  const recent = firstTries.slice(-RECENT_WINDOW)
+  const recentAccuracy = recent.length ? recent.filter((event) => event.correct).length / recent.length : 0
+
+  const confusionCounts = new Map<string, number>()
+  itemEvents.forEach((event) => {
+    if (!event.correct && event.chosen) confusionCounts.set(event.chosen, (confusionCounts.get(event.chosen) ?? 0) + 1)
+  })
+
+  return {
+    itemKey,
+    lang,
+    level: levelFor(firstTries, recentAccuracy),
+    attempts: itemEvents.length,
+    correct: itemEvents.filter((event) => event.correct).length,
+    recentAccuracy,
+    averageResponseMs: itemEvents.length
+      ? itemEvents.reduce((sum, event) => sum + event.responseTimeMs, 0) / itemEvents.length
+      : 0,
+    confusions: [...confusionCounts.entries()]
+      .map(([chosen, count]) => ({ chosen, count }))
+      .sort((a, b) => b.count - a.count),
+    lastSeen: itemEvents.length ? itemEvents[itemEvents.length - 1].timestamp : 0,
+  }
+}
+
+/**
+ * Domínio de todos os itens já vistos em um idioma
+ */
+export function computeMastery(events: LearningEvent[], lang: string): ItemMastery[] {
+  const code = toLanguageCode(lang)
+  const byItem = new Map<string, LearningEvent[]>()
+  events
+    .filter((event) => event.lang === code)
+    .forEach((event) => {
+      const list = byItem.get(event.itemKey) ?? []
+      list.push(event)
+      byItem.set(event.itemKey, list)
+    })
+  return [...byItem.entries()].map(([itemKey, itemEvents]) => masteryOf(itemKey, code, itemEvents))
+}
+
+/**
+ * Domínio de um item para o perfil ativo (nível 'new' se nunca foi perguntado)
+ */
+export function getItemMastery(lang: string, itemKey: string): ItemMastery {
+  const code = toLanguageCode(lang)
+  return masteryOf(
+    itemKey,
+    code,
+    state.events.filter((event) => event.lang === code && event.itemKey === itemKey)
+  )
+}
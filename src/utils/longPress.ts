@@ -0,0 +1,53 @@
+import { useRef } from 'react'
+import type React from 'react'
+
+/** Tempo segurando para contar como toque longo */
+export const LONG_PRESS_MS = 700
+
+// Movimento máximo (px) antes de considerar que o dedo está rolando a tela
+const MOVE_TOLERANCE = 10
+
+/**
+ * Detecta toque longo (mouse, toque ou caneta)
+ * Os handlers vão no elemento que envolve o conteúdo; o clique que vem depois
+ * de um toque longo é bloqueado na fase de captura para não acionar o clique normal
+ */
+export function useLongPress(onLongPress: () => void, ms: number = LONG_PRESS_MS) {
+  const timerRef = useRef<ReturnType<typeof setTimeout>>()
+  const startRef = useRef<{ x: number; y: number } | null>(null)
+  const triggeredRef = useRef(false)
+
+  const cancel = () => {
+    clearTimeout(timerRef.current)
+    startRef.current = null
+  }
+
+  return {
+    onPointerDown: (event: React.PointerEvent) => {
+      triggeredRef.current = false
+      startRef.current = { x: event.clientX, y: event.clientY }
+      clearTimeout(timerRef.current)
+      timerRef.current = setTimeout(() => {
+        triggeredRef.current = true
+        startRef.current = null
+        onLongPress()
+      }, ms)
+    },
+    onPointerMove: (event: React.PointerEvent) => {
+      const start = startRef.current
+      if (start && Math.hypot(event.clientX - start.x, event.clientY - start.y) > MOVE_TOLERANCE) cancel()
+    },
+    onPointerUp: cancel,
+    onPointerLeave: cancel,
+    onPointerCancel: cancel,
+    onClickCapture: (event: React.MouseEvent) => {
+      if (triggeredRef.current) {
+        triggeredRef.current = false
+        event.stopPropagation()
+        event.preventDefault()
+      }
+    },
+    // Evitar o menu de contexto do navegador ao segurar no celular
+    onContextMenu: (event: React.MouseEvent) => event.preventDefault(),
+  }
+}
@@ -0,0 +1,71 @@
+import type { AgeBand } from './profiles'
+
+/**
+ * Contas do jogo de matemática
+ * Números e respostas vão de 1 até o maior número do nível; acima de 10 (fora de numbers.json)
+ * o jogo mostra e fala o próprio numeral
+ */
+
+export type MathOperation = 'plus' | 'minus'
+
+export interface MathProblem {
+  a: number
+  b: number
+  operation: MathOperation
+  answer: number
+}
+
+export interface MathTier {
+  id: string
+  operations: MathOperation[]
+  /** Maior número que aparece na conta */
+  maxNumber: number
+}
+
+export const MATH_TIERS: MathTier[] = [
+  { id: 'plus5', operations: ['plus'], maxNumber: 5 },
+  { id: 'plus10', operations: ['plus'], maxNumber: 10 },
+  { id: 'mixed10', operations: ['plus', 'minus'], maxNumber: 10 },
+  { id: 'mixed20', operations: ['plus', 'minus'], maxNumber: 20 },
+]
+
+const TIER_BY_AGE: Record<AgeBand, number> = { '2-3': 0, '4-5': 0, '6-7': 1, '8+': 2 }
+
+/**
+ * Nível inicial pela faixa de idade do perfil (convidado começa no primeiro)
+ */
+export function getInitialMathTier(ageBand?: AgeBand): number {
+  return ageBand ? TIER_BY_AGE[ageBand] : 0
+}
+
+export function clampMathTier(tier: number): number {
+  return Math.min(Math.max(Math.round(tier), 0), MATH_TIERS.length - 1)
+}
+
+const randomBetween = (min: number, max: number) => min + Math.floor(Math.random() * (max - min + 1))
+
+/**
+ * Sorteia uma conta do nível, com resultado e números até tier.maxNumber
+ */
+export function generateMathProblem(tier: MathTier): MathProblem {
+  const operation = tier.operations[Math.floor(Math.random() * tier.operations.length)]
+  if (operation === 'plus') {
+    const answer = randomBetween(2, tier.maxNumber)
+    const a = randomBetween(1, answer - 1)
+    return { a, b: answer - a, operation, answer }
+  }
+  const answer = randomBetween(1, tier.maxNumber - 1)
+  const b = randomBetween(1, tier.maxNumber - answer)
+  return { a: answer + b, b, operation, answer }
+}
+
+/**
+ * Opções de resposta: a certa e as mais próximas dela, embaralhadas
+ */
+export function buildAnswerOptions(answer: number, count: number, maxAnswer: number): number[] {
+  const others = Array.from({ length: maxAnswer }, (_, i) => i + 1)
+    .filter((value) => value !== answer)
+    .sort((x, y) => Math.abs(x - answer) - Math.abs(y - answer) || Math.random() - 0.5)
+    .slice(0, count - 1)
+  return [answer, ...others].sort(() => Math.random() - 0.5)
+}
@@ -0,0 +1,109 @@
+import type { LearningItem } from '../content'
+
+/**
+ * Jogo da memória sobre os conjuntos de dados embutidos
+ * Cada par é formado por duas faces do mesmo item (ex: figura e palavra)
+ */
+
+export type MemorySource = 'letters' | 'numbers' | 'colors' | 'words'
+
+/**
+ * Modos de formar pares
+ * - identical: duas cartas iguais
+ * - pictureWord: figura e palavra escrita
+ * - numeralQuantity: numeral e a quantidade em bolinhas
+ * - colorName: cor e o nome dela
+ */
+export type MemoryMode = 'identical' | 'pictureWord' | 'numeralQuantity' | 'colorName'
+
+/** Como o item aparece na carta virada */
+export type MemoryFace = 'icon' | 'text' | 'numeral' | 'quantity' | 'swatch'
+
+export interface MemoryCard {
+  /** Único no tabuleiro */
+  id: string
+  /** Id do item; as duas cartas do par têm o mesmo */
+  itemId: string
+  face: MemoryFace
+}
+
+export interface MemoryGrid {
+  cols: number
+  rows: number
+}
+
+export const MEMORY_SOURCES: MemorySource[] = ['words', 'letters', 'numbers', 'colors']
+
+export const MEMORY_GRIDS: MemoryGrid[] = [
+  { cols: 2, rows: 2 },
+  { cols: 3, rows: 2 },
+  { cols: 4, rows: 2 },
+  { cols: 4, rows: 3 },
+  { cols: 4, rows: 4 },
+  { cols: 4, rows: 5 },
+]
+
+// Conjuntos em que cada modo faz sentido
+const MODE_SOURCES: Record<MemoryMode, MemorySource[]> = {
+  identical: MEMORY_SOURCES,
+  pictureWord: ['words'],
+  numeralQuantity: ['numbers'],
+  colorName: ['colors'],
+}
+
+// Face das cartas iguais: a forma mais reconhecível de cada conjunto
+const IDENTICAL_FACE: Record<MemorySource, MemoryFace> = {
+  words: 'icon',
+  letters: 'text',
+  numbers: 'numeral',
+  colors: 'swatch',
+}
+
+/**
+ * Modos disponíveis para um conjunto de dados
+ */
+export function getMemoryModes(source: MemorySource): MemoryMode[] {
+  return (Object.keys(MODE_SOURCES) as MemoryMode[]).filter((mode) => MODE_SOURCES[mode].includes(source))
+}
+
+/**
+ * Grades que cabem no conjunto (uma carta de cada par por item)
+ */
+export function getMemoryGrids(itemCount: number): MemoryGrid[] {
+  return MEMORY_GRIDS.filter((grid) => (grid.cols * grid.rows) / 2 <= itemCount)
+}
+
+/**
+ * Faces das duas cartas de um par
+ */
+export function getPairFaces(source: MemorySource, mode: MemoryMode): [MemoryFace, MemoryFace] {
+  switch (mode) {
+    case 'identical':
+      return [IDENTICAL_FACE[source], IDENTICAL_FACE[source]]
+    case 'pictureWord':
+      return ['icon', 'text']
+    case 'numeralQuantity':
+      return ['numeral', 'quantity']
+    case 'colorName':
+      return ['swatch', 'text']
+  }
+}
+
+/**
+ * Monta o tabuleiro embaralhado com itens sorteados do conjunto
+ */
+export function buildMemoryDeck(
+  items: LearningItem[],
+  source: MemorySource,
+  mode: MemoryMode,
+  grid: MemoryGrid
+): MemoryCard[] {
+  const pairs = Math.floor((grid.cols * grid.rows) / 2)
+  const chosen = [...items].sort(() => Math.random() - 0.5).slice(0, pairs)
+  const [firstFace, secondFace] = getPairFaces(source, mode)
+  const cards = chosen.flatMap((item) => [
+    { id: `${item.id}:a`, itemId: item.id, face: firstFace },
+    { id: `${item.id}:b`, itemId: item.id, face: secondFace },
+  ])
+  return cards.sort(() => Math.random() - 0.5)
+}
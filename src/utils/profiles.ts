@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState, useSyncExternalStore, type Dispatch, type SetStateAction } from 'react'
+import i18n from '../i18n'
+import { toLanguageCode, type LanguageCode } from '../i18n/languages'
+import { isDatabaseSupported, dbGetAll, dbGet, dbPut, dbDelete, dbDeleteByIndex, PROFILE_INDEX } from './db'
+
+/**
+ * Perfis locais das crianças
+ * Vários irmãos usam o mesmo tablet: cada um tem seus dados (pontos, progresso...)
+ * Sem perfil escolhido, o app funciona como convidado e guarda os dados só na memória
+ */
+
+export const AGE_BANDS = ['2-3', '4-5', '6-7', '8+'] as const
+
+export type AgeBand = (typeof AGE_BANDS)[number]
+
+export const PROFILE_AVATARS = ['🦁', '🐼', '🦊', '🐸', '🐵', '🐯', '🐰', '🐨', '🦄', '🐙', '🐢', '🐝']
+
+export interface Profile {
+  id: string
+  name: string
+  /** Emoji do avatar */
+  avatar: string
+  /** Idioma preferido: o app troca para ele ao escolher o perfil */
+  language: LanguageCode
+  ageBand: AgeBand
+  createdAt: number
+}
+
+export type ProfileInput = Omit<Profile, 'id' | 'createdAt'>
+
+export interface ProfilesState {
+  /** false enquanto os perfis não foram lidos do IndexedDB */
+  loaded: boolean
+  profiles: Profile[]
+  activeId: string | null
+  /** Se alguém já respondeu "quem vai jogar?" nesta sessão */
+  chosen: boolean
+}
+
+const ACTIVE_PROFILE_KEY = 'aprendeplay:activeProfile'
+// sessionStorage: a pergunta volta a aparecer a cada vez que o app é aberto
+const CHOSEN_KEY = 'aprendeplay:profileChosen'
+
+const listeners = new Set<() => void>()
+
+function readStorage(storage: Storage, key: string): string | null {
+  try {
+    return storage.getItem(key)
+  } catch {
+    return null
+  }
+}
+
+function writeStorage(storage: Storage, key: string, value: string | null) {
+  try {
+    if (value === null) storage.removeItem(key)
+    else storage.setItem(key, value)
+  } catch (error) {
+    console.warn('Erro ao salvar perfil ativo:', error)
+  }
+}
+
+let state: ProfilesState = {
+  loaded: !isDatabaseSupported(),
+  profiles: [],
+  activeId: typeof localStorage === 'undefined' ? null : readStorage(localStorage, ACTIVE_PROFILE_KEY),
+  chosen: typeof sessionStorage !== 'undefined' && readStorage(sessionStorage, CHOSEN_KEY) === '1',
+}
+
+function setState(changes: Partial<ProfilesState>) {
+  state = { ...state, ...changes }
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Relê os perfis do IndexedDB (ex: depois de importar um backup)
+ */
+export async function refreshProfiles(): Promise<void> {
+  try {
+    const profiles = (await dbGetAll<Profile>('profiles')).sort((a, b) => a.createdAt - b.createdAt)
+    // Perfil ativo apagado em outra aba, ou banco limpo pelo navegador
+    const activeId = profiles.some((profile) => profile.id === state.activeId) ? state.activeId : null
+    if (activeId !== state.activeId) writeStorage(localStorage, ACTIVE_PROFILE_KEY, null)
+    setState({ loaded: true, profiles, activeId })
+  } catch (error) {
+    console.warn('Erro ao carregar perfis:', error)
+    setState({ loaded: true })
+  }
+}
+
+if (isDatabaseSupported()) {
+  refreshProfiles()
+}
+
+export function getProfilesState(): ProfilesState {
+  return state
+}
+
+export function subscribeProfiles(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function useProfiles(): ProfilesState {
+  return useSyncExternalStore(subscribeProfiles, getProfilesState)
+}
+
+export function getActiveProfile(): Profile | null {
+  return state.profiles.find((profile) => profile.id === state.activeId) ?? null
+}
+
+export function useActiveProfile(): Profile | null {
+  const { profiles, activeId } = useProfiles()
+  return profiles.find((profile) => profile.id === activeId) ?? null
+}
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+export async function createProfile(input: ProfileInput): Promise<Profile> {
+  const profile: Profile = { ...input, id: createId(), createdAt: Date.now() }
+  await dbPut('profiles', profile)
+  await refreshProfiles()
+  return profile
+}
+
+export async function updateProfile(id: string, changes: Partial<ProfileInput>): Promise<void> {
+  const profile = await dbGet<Profile>('profiles', id)
+  if (!profile) return
+  await dbPut('profiles', { ...profile, ...changes })
+  await refreshProfiles()
+}
+
+/**
+ * Apaga o perfil e todos os dados dele
+ */
+export async function deleteProfile(id: string): Promise<void> {
+  await dbDelete('profiles', id)
+  await dbDeleteByIndex('profileData', PROFILE_INDEX, id)
+  await dbDeleteByIndex('learningEvents', PROFILE_INDEX, id)
+  if (state.activeId === id) selectProfile(null)
+  await refreshProfiles()
+}
+
+/**
+ * Escolhe quem vai jogar (null = convidado) e troca para o idioma preferido do perfil
+ */
+export function selectProfile(id: string | null): void {
+  writeStorage(localStorage, ACTIVE_PROFILE_KEY, id)
+  writeStorage(sessionStorage, CHOSEN_KEY, '1')
+  guestData.clear()
+  setState({ activeId: id, chosen: true })
+
+  const profile = getActiveProfile()
+  if (profile && toLanguageCode(i18n.language) !== profile.language) {
+    i18n.changeLanguage(profile.language)
+  }
+}
+
+/**
+ * Volta a perguntar "quem vai jogar?" na tela inicial
+ */
+export function requestProfilePicker(): void {
+  writeStorage(sessionStorage, CHOSEN_KEY, null)
+  setState({ chosen: false })
+}
+
+// Trocar o idioma com um perfil ativo atualiza o idioma preferido dele
+i18n.on('languageChanged', (lng) => {
+  const profile = getActiveProfile()
+  const language = toLanguageCode(lng)
+  if (profile && profile.language !== language) {
+    updateProfile(profile.id, { language }).catch((error) => console.warn('Erro ao salvar idioma do perfil:', error))
+  }
+})
+
+// Dados por perfil (pontuação, progresso...)
+export interface ProfileDataRecord<T = unknown> {
+  /** `${profileId}:${name}` */
+  id: string
+  profileId: string
+  name: string
+  value: T
+}
+
+// Convidado: dados só na memória, perdidos ao recarregar
+const guestData = new Map<string, unknown>()
+
+/**
+ * Lê um dado do perfil (null = convidado)
+ */
+export async function loadProfileData<T>(profileId: string | null, name: string): Promise<T | undefined> {
+  if (!profileId || !isDatabaseSupported()) return guestData.get(name) as T | undefined
+  const record = await dbGet<ProfileDataRecord<T>>('profileData', `${profileId}:${name}`)
+  return record?.value
+}
+
+export async function saveProfileData<T>(profileId: string | null, name: string, value: T): Promise<void> {
+  if (!profileId || !isDatabaseSupported()) {
+    guestData.set(name, value)
+    return
+  }
+  await dbPut<ProfileDataRecord<T>>('profileData', { id: `${profileId}:${name}`, profileId, name, value })
+}
+
+/**
+ * useState salvo no perfil ativo; recarrega quando o perfil muda
+ * O terceiro item diz se o valor do perfil ativo já foi carregado (antes disso é o initial)
+ */
+export function useProfileState<T>(name: string, initial: T): [T, Dispatch<SetStateAction<T>>, boolean] {
+  const profileId = useProfiles().activeId
+  const [value, setValue] = useState<T>(initial)
+  // Perfil cujo valor já foi carregado: só salva depois de carregar, para não sobrescrever
+  const loadedForRef = useRef<string | null | undefined>(undefined)
+  const [loadedFor, setLoadedFor] = useState<string | null | undefined>(undefined)
+
+  useEffect(() => {
+    let active = true
+    loadedForRef.current = undefined
+    loadProfileData<T>(profileId, name)
+      .catch((error) => console.warn('Erro ao carregar dados do perfil:', error))
+      .then((stored) => {
+        if (!active) return
+        loadedForRef.current = profileId
+        setValue(stored ?? initial)
+        setLoadedFor(profileId)
+      })
+    return () => {
+      active = false
+    }
+  }, [profileId, name])
+
+  useEffect(() => {
+    if (loadedForRef.current !== profileId) return
+    saveProfileData(profileId, name, value).catch((error) => console.warn('Erro ao salvar dados do perfil:', error))
+  }, [value])
+
+  return [value, setValue, loadedFor === profileId]
+}
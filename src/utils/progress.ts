@@ -0,0 +1,108 @@
+import { SUPPORTED_LANGUAGES } from '../i18n/languages'
+import { computeMastery, type ItemMastery, type LearningEvent } from './learning'
+
+/**
+ * Resumos de progresso para o painel dos pais, calculados a partir dos eventos de aprendizado
+ */
+
+export interface DayValue {
+  /** Data local no formato AAAA-MM-DD */
+  day: string
+  value: number
+}
+
+export interface GameAccuracy {
+  game: string
+  answers: number
+  /** Acertos de primeira (0 a 1) */
+  accuracy: number
+}
+
+// Respostas com mais tempo que isso entre elas contam como sessões separadas
+const SESSION_GAP_MS = 2 * 60_000
+// Tempo atribuído à primeira resposta de cada sessão (olhar a pergunta, ouvir a fala...)
+const SESSION_START_MS = 10_000
+
+export function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Os últimos dias, do mais antigo até hoje
+ */
+export function getLastDays(count: number, now = Date.now()): string[] {
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(now)
+    date.setDate(date.getDate() - (count - 1 - index))
+    return toDayKey(date.getTime())
+  })
+}
+
+function perDay(days: string[], values: Map<string, number>): DayValue[] {
+  return days.map((day) => ({ day, value: values.get(day) ?? 0 }))
+}
+
+/**
+ * Minutos jogados por dia, estimados pelo intervalo entre as respostas
+ */
+export function getPlayMinutesPerDay(events: LearningEvent[], days: string[]): DayValue[] {
+  const totals = new Map<string, number>()
+  events.forEach((event, index) => {
+    const gap = index > 0 ? event.timestamp - events[index - 1].timestamp : Infinity
+    const played = gap < SESSION_GAP_MS ? gap : SESSION_START_MS
+    const day = toDayKey(event.timestamp)
+    totals.set(day, (totals.get(day) ?? 0) + played / 60_000)
+  })
+  return perDay(days, totals)
+}
+
+/**
+ * Maior sequência de acertos de primeira em cada dia
+ */
+export function getBestStreakPerDay(events: LearningEvent[], days: string[]): DayValue[] {
+  const best = new Map<string, number>()
+  let streak = 0
+  let streakDay = ''
+  events
+    .filter((event) => event.attempt === 1)
+    .forEach((event) => {
+      const day = toDayKey(event.timestamp)
+      if (day !== streakDay) {
+        streak = 0
+        streakDay = day
+      }
+      streak = event.correct ? streak + 1 : 0
+      best.set(day, Math.max(best.get(day) ?? 0, streak))
+    })
+  return perDay(days, best)
+}
+
+export function getAccuracyByGame(events: LearningEvent[]): GameAccuracy[] {
+  // Respostas de primeira e acertos por jogo, numa passada só
+  const byGame = new Map<string, { answers: number; correct: number }>()
+  events.forEach((event) => {
+    if (event.attempt !== 1) return
+    const totals = byGame.get(event.game) ?? { answers: 0, correct: 0 }
+    totals.answers += 1
+    if (event.correct) totals.correct += 1
+    byGame.set(event.game, totals)
+  })
+  return [...byGame.entries()].map(([game, { answers, correct }]) => ({
+    game,
+    answers,
+    accuracy: correct / answers,
+  }))
+}
+
+/**
+ * Itens com menos acertos recentes, em todos os idiomas praticados
+ */
+export function getWeakestItems(events: LearningEvent[], limit: number): ItemMastery[] {
+  return SUPPORTED_LANGUAGES.flatMap((lang) => computeMastery(events, lang))
+    .filter((mastery) => mastery.level !== 'mastered' && mastery.level !== 'new')
+    .sort((a, b) => a.recentAccuracy - b.recentAccuracy || b.attempts - a.attempts)
+    .slice(0, limit)
+}
@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { getAudioKey } from '../content'
+import { getSpeechLang } from '../i18n/languages'
+import { speak, cancelSpeech } from './speak'
+import { wait } from './wait'
+import { vibrate } from './vibrate'
+import { playBackgroundMusic, stopBackgroundMusic, playCorrectSound, playWrongSound, playSound } from './sounds'
+import { useProfileState } from './profiles'
+import { recordLearningEvent } from './learning'
+import { registerGame, takeBreakIfDue } from './screenTime'
+import { emitGameEvent } from './gameEvents'
+
+/**
+ * Fluxo comum dos quizzes de escolher a resposta (cores, números, letras, matemática):
+ * pontos e sequência no perfil, música e tempo de tela enquanto a página está aberta,
+ * e a comemoração ou o erro depois de cada resposta
+ */
+
+export type QuizFeedback = 'correct' | 'incorrect' | null
+
+// Tempo mínimo das animações de acerto/erro antes de seguir (a fala pode ser mais curta)
+const CORRECT_FEEDBACK_MS = 1500
+const INCORRECT_FEEDBACK_MS = 1200
+
+export interface QuizAnswer {
+  /** Item do evento de aprendizado (ex: colors:red) */
+  itemKey: string
+  correct: boolean
+  expected?: string
+  /** Opção escolhida no erro */
+  chosen?: string
+  /** false quando a rodada não conta como perfeita mesmo de primeira (ex: usou a dica) */
+  perfect?: boolean
+  /** Fala depois do erro, para a criança comparar (ex: o nome da opção tocada) */
+  sayChosen?: () => Promise<void>
+  /** Próxima pergunta, depois da comemoração e de uma eventual pausa do tempo de tela */
+  onNext: () => void
+  /** Nova tentativa da mesma pergunta (embaralhar as opções, repetir a pergunta...) */
+  onRetry: () => void
+}
+
+/**
+ * @param game id do jogo nos eventos (ex: colors-quiz)
+ * @param stateName prefixo dos dados salvos no perfil (ex: colorsQuiz → colorsQuiz.score)
+ */
+export function useQuiz(game: string, stateName: string) {
+  const { t, i18n } = useTranslation()
+  // Pontos e sequência ficam salvos no perfil da criança
+  const [score, setScore] = useProfileState(`${stateName}.score`, 0)
+  const [streak, setStreak] = useProfileState(`${stateName}.streak`, 0)
+  const [feedback, setFeedback] = useState<QuizFeedback>(null)
+  const [isAnswering, setIsAnswering] = useState(false)
+  const [showParticles, setShowParticles] = useState(false)
+  // Evita continuar a sequência de falas depois de sair da página
+  const isMountedRef = useRef(true)
+  // Tentativa atual da rodada e momento em que a pergunta apareceu (para os eventos de aprendizado)
+  const attemptRef = useRef(1)
+  const askedAtRef = useRef(Date.now())
+
+  useEffect(() => {
+    isMountedRef.current = true
+    playBackgroundMusic()
+    // Com o jogo aberto, a pausa do tempo de tela espera a rodada terminar
+    const unregisterGame = registerGame()
+
+    return () => {
+      isMountedRef.current = false
+      unregisterGame()
+      stopBackgroundMusic()
+      cancelSpeech()
+    }
+  }, [])
+
+  /**
+   * Limpa a resposta anterior; chamado a cada nova pergunta
+   */
+  const startRound = () => {
+    setFeedback(null)
+    setIsAnswering(false)
+    setShowParticles(false)
+    attemptRef.current = 1
+    askedAtRef.current = Date.now()
+  }
+
+  /**
+   * Registra a resposta e mostra a comemoração (acerto) ou o erro, mantendo a mesma pergunta até acertar
+   */
+  const submitAnswer = async ({ itemKey, correct, expected, chosen, perfect = true, sayChosen, onNext, onRetry }: QuizAnswer) => {
+    if (isAnswering) return
+    setIsAnswering(true)
+
+    recordLearningEvent({
+      game,
+      itemKey,
+      lang: i18n.language,
+      correct,
+      attempt: attemptRef.current,
+      responseTimeMs: Date.now() - askedAtRef.current,
+      expected,
+      chosen: correct ? undefined : chosen,
+    })
+    emitGameEvent({ type: 'answer', game, correct, streak: correct ? streak + 1 : 0 })
+    if (correct) emitGameEvent({ type: 'round-completed', game, perfect: perfect && attemptRef.current === 1 })
+
+    if (correct) {
+      setFeedback('correct')
+      setScore((prev) => prev + 10)
+      setStreak((prev) => prev + 1)
+      vibrate([30, 50, 30])
+      setShowParticles(true)
+      // Fanfarra a cada 5 acertos seguidos
+      if ((streak + 1) % 5 === 0) {
+        playSound('streak')
+      } else {
+        playCorrectSound()
+      }
+
+      // Próxima pergunta quando a fala terminar e a comemoração tiver aparecido
+      const praise = t('quiz.correct') || 'Parabéns!'
+      await Promise.all([speak(praise, getSpeechLang(i18n.language), getAudioKey('phrases', 'correct')), wait(CORRECT_FEEDBACK_MS)])
+      if (!isMountedRef.current) return
+      // Fim da rodada: pausa se o tempo de tela acabou
+      await takeBreakIfDue()
+      if (!isMountedRef.current) return
+      onNext()
+    } else {
+      setFeedback('incorrect')
+      vibrate([100, 50, 100, 50, 100])
+      setStreak(0)
+      playWrongSound()
+
+      await Promise.all([sayChosen?.(), wait(INCORRECT_FEEDBACK_MS)])
+      if (!isMountedRef.current) return
+
+      setFeedback(null)
+      setIsAnswering(false)
+      attemptRef.current += 1
+      askedAtRef.current = Date.now()
+      onRetry()
+    }
+  }
+
+  return { score, streak, feedback, isAnswering, showParticles, isMountedRef, attemptRef, startRound, submitAnswer }
+}
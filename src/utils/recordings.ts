@@ -0,0 +1,253 @@
+import { useSyncExternalStore } from 'react'
+import { toLanguageCode, isLanguageCode, type LanguageCode } from '../i18n/languages'
+import { isDatabaseSupported, dbGet, dbGetAll, dbGetAllKeys, dbPut, dbDelete } from './db'
+
+/**
+ * Gravações de voz feitas pelos pais para cada item (por idioma)
+ * Salvas no IndexedDB; a chave do item é a mesma dos áudios gravados (getAudioKey)
+ */
+export interface Recording {
+  /** `${idioma}:${chave}` (ex: 'pt:colors:red') */
+  id: string
+  lang: LanguageCode
+  key: string
+  blob: Blob
+  createdAt: number
+}
+
+/** Duração máxima de uma gravação */
+export const MAX_RECORDING_MS = 5000
+
+const STORE = 'recordings'
+const BUNDLE_FORMAT = 'aprendeplay-recordings'
+
+const listeners = new Set<() => void>()
+// Ids das gravações existentes, em memória para consultas síncronas (ex: marcar os cards)
+let recordingIds: ReadonlySet<string> = new Set()
+
+function notify() {
+  listeners.forEach((listener) => listener())
+}
+
+async function refreshRecordingIds(): Promise<void> {
+  try {
+    const keys = await dbGetAllKeys(STORE)
+    recordingIds = new Set(keys.map(String))
+    notify()
+  } catch (error) {
+    console.warn('Erro ao carregar gravações:', error)
+  }
+}
+
+if (isDatabaseSupported()) {
+  refreshRecordingIds()
+}
+
+const recordingId = (lang: string, key: string) => `${toLanguageCode(lang)}:${key}`
+
+export function getRecordingIds(): ReadonlySet<string> {
+  return recordingIds
+}
+
+export function subscribeRecordings(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function useRecordingIds(): ReadonlySet<string> {
+  return useSyncExternalStore(subscribeRecordings, getRecordingIds)
+}
+
+export function hasRecording(lang: string, key: string): boolean {
+  return recordingIds.has(recordingId(lang, key))
+}
+
+export async function getRecording(lang: string, key: string): Promise<Blob | null> {
+  const recording = await dbGet<Recording>(STORE, recordingId(lang, key))
+  return recording?.blob ?? null
+}
+
+export async function saveRecording(lang: string, key: string, blob: Blob): Promise<void> {
+  const code = toLanguageCode(lang)
+  await dbPut<Recording>(STORE, { id: recordingId(code, key), lang: code, key, blob, createdAt: Date.now() })
+  await refreshRecordingIds()
+}
+
+export async function deleteRecording(lang: string, key: string): Promise<void> {
+  await dbDelete(STORE, recordingId(lang, key))
+  await refreshRecordingIds()
+}
+
+export interface ActiveRecording {
+  /** Para antes do tempo máximo */
+  stop: () => void
+  /** Áudio gravado, quando a gravação termina */
+  result: Promise<Blob>
+}
+
+export function isRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia
+}
+
+/**
+ * Começa a gravar do microfone; para sozinho depois de MAX_RECORDING_MS
+ * Rejeita se o microfone não estiver disponível ou a permissão for negada
+ */
+export async function startRecording(maxMs: number = MAX_RECORDING_MS): Promise<ActiveRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+  const stopStream = () => stream.getTracks().forEach((track) => track.stop())
+  let recorder: MediaRecorder
+  try {
+    recorder = new MediaRecorder(stream)
+  } catch (error) {
+    // Sem gravador o microfone ficaria aberto (e o indicador do navegador aceso)
+    stopStream()
+    throw error
+  }
+  const chunks: Blob[] = []
+
+  const result = new Promise<Blob>((resolve, reject) => {
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    recorder.onstop = () => {
+      stopStream()
+      resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }))
+    }
+    recorder.onerror = () => {
+      stopStream()
+      reject(new Error('Erro na gravação'))
+    }
+  })
+
+  const stop = () => {
+    clearTimeout(timer)
+    if (recorder.state !== 'inactive') recorder.stop()
+  }
+  const timer = setTimeout(stop, maxMs)
+  try {
+    recorder.start()
+  } catch (error) {
+    clearTimeout(timer)
+    stopStream()
+    throw error
+  }
+
+  return { stop, result }
+}
+
+// Pacote de gravações (exportar/importar)
+interface BundleEntry {
+  lang: LanguageCode
+  key: string
+  mimeType: string
+  /** Áudio em base64 */
+  data: string
+  createdAt: number
+}
+
+interface RecordingsBundle {
+  format: typeof BUNDLE_FORMAT
+  version: 1
+  recordings: BundleEntry[]
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '')
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+function base64ToBlob(data: string, mimeType: string): Blob {
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+  return new Blob([bytes], { type: mimeType })
+}
+
+/**
+ * Exporta todas as gravações em um arquivo JSON
+ */
+export async function exportRecordings(): Promise<Blob> {
+  const recordings = await dbGetAll<Recording>(STORE)
+  const bundle: RecordingsBundle = {
+    format: BUNDLE_FORMAT,
+    version: 1,
+    recordings: await Promise.all(
+      recordings.map(async (recording) => ({
+        lang: recording.lang,
+        key: recording.key,
+        mimeType: recording.blob.type,
+        data: await blobToBase64(recording.blob),
+        createdAt: recording.createdAt,
+      }))
+    ),
+  }
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' })
+}
+
+const isBundleEntry = (entry: unknown): entry is BundleEntry => {
+  const value = entry as Partial<BundleEntry> | null
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    isLanguageCode(value.lang) &&
+    typeof value.key === 'string' &&
+    typeof value.mimeType === 'string' &&
+    typeof value.data === 'string'
+  )
+}
+
+/**
+ * Arquivo de gravações que não pode ser importado
+ * `code` é a chave em recordings.errors.* usada para mostrar o erro no idioma da interface
+ */
+export class RecordingsFileError extends Error {
+  code: 'invalidJson' | 'notRecordings' | 'invalidData'
+
+  constructor(code: RecordingsFileError['code'], message: string) {
+    super(message)
+    this.name = 'RecordingsFileError'
+    this.code = code
+  }
+}
+
+/**
+ * Importa um arquivo exportado por exportRecordings; gravações com a mesma chave são substituídas
+ * @returns Quantidade de gravações importadas
+ * @throws RecordingsFileError se o arquivo não for um pacote de gravações ou tiver áudio corrompido
+ */
+export async function importRecordings(file: File): Promise<number> {
+  let bundle: Partial<RecordingsBundle>
+  try {
+    bundle = JSON.parse(await file.text())
+  } catch {
+    throw new RecordingsFileError('invalidJson', 'O arquivo não é um JSON válido')
+  }
+
+  if (bundle?.format !== BUNDLE_FORMAT || bundle.version !== 1 || !Array.isArray(bundle.recordings)) {
+    throw new RecordingsFileError('notRecordings', 'O arquivo não é um pacote de gravações do AprendePlay')
+  }
+
+  // Decodifica tudo antes de gravar: um áudio corrompido não deixa a importação pela metade
+  let recordings: Recording[]
+  try {
+    recordings = bundle.recordings.filter(isBundleEntry).map((entry) => ({
+      id: recordingId(entry.lang, entry.key),
+      lang: entry.lang,
+      key: entry.key,
+      blob: base64ToBlob(entry.data, entry.mimeType),
+      createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : Date.now(),
+    }))
+  } catch {
+    throw new RecordingsFileError('invalidData', 'O arquivo tem gravações corrompidas')
+  }
+
+  for (const recording of recordings) {
+    await dbPut<Recording>(STORE, recording)
+  }
+
+  await refreshRecordingIds()
+  return recordings.length
+}
@@ -0,0 +1,92 @@
+import { toLanguageCode } from '../i18n/languages'
+import { getLearningEvents, type LearningEvent } from './learning'
+
+/**
+ * Escolha do próximo item dos jogos (repetição espaçada)
+ * Usa os eventos de aprendizado do perfil ativo; o convidado usa os eventos da sessão
+ */
+
+/** Uma pergunta respondida: todas as respostas seguidas do mesmo item */
+export interface Review {
+  itemKey: string
+  /** Acertou tudo de primeira */
+  correct: boolean
+  timestamp: number
+}
+
+export interface ItemScheduler {
+  /** Escolhe uma das chaves; history vem em ordem cronológica e só com os itens candidatos */
+  pick: (itemKeys: string[], history: Review[]) => string
+}
+
+// Respostas do mesmo item com menos tempo que isso entre elas são a mesma pergunta (ex: sílabas de uma palavra)
+const REVIEW_GAP_MS = 60_000
+
+/**
+ * Junta os eventos em perguntas, na ordem em que foram feitas
+ */
+export function toReviews(events: LearningEvent[]): Review[] {
+  const reviews: Review[] = []
+  const openReview = new Map<string, Review>()
+  events.forEach((event) => {
+    const last = reviews[reviews.length - 1]
+    const current = openReview.get(event.itemKey)
+    if (current && current === last && event.timestamp - current.timestamp < REVIEW_GAP_MS) {
+      current.correct = current.correct && event.correct
+      current.timestamp = event.timestamp
+      return
+    }
+    const review = { itemKey: event.itemKey, correct: event.correct, timestamp: event.timestamp }
+    reviews.push(review)
+    openReview.set(event.itemKey, review)
+  })
+  return reviews
+}
+
+const randomOf = <T>(list: T[]): T => list[Math.floor(Math.random() * list.length)]
+
+// Caixas de Leitner: quantas perguntas de outros itens esperar antes de repetir o item
+const LEITNER_INTERVALS = [1, 3, 6, 12, 24]
+
+/**
+ * Leitner: acerto sobe o item de caixa, erro volta para a primeira
+ * Itens nunca vistos vêm primeiro e todo item acaba voltando, então o conjunto inteiro é coberto
+ */
+export const leitnerScheduler: ItemScheduler = {
+  pick(itemKeys, history) {
+    const box = new Map<string, number>()
+    const lastIndex = new Map<string, number>()
+    history.forEach((review, index) => {
+      const current = box.get(review.itemKey) ?? 0
+      box.set(review.itemKey, review.correct ? Math.min(current + 1, LEITNER_INTERVALS.length - 1) : 0)
+      lastIndex.set(review.itemKey, index)
+    })
+
+    const unseen = itemKeys.filter((key) => !lastIndex.has(key))
+    if (unseen.length > 0) return randomOf(unseen)
+
+    // Quanto o item já passou do intervalo da caixa dele
+    const overdue = (key: string) => (history.length - lastIndex.get(key)!) / LEITNER_INTERVALS[box.get(key)!]
+    const best = Math.max(...itemKeys.map(overdue))
+    return randomOf(itemKeys.filter((key) => overdue(key) === best))
+  },
+}
+
+export const randomScheduler: ItemScheduler = {
+  pick: (itemKeys) => randomOf(itemKeys),
+}
+
+/**
+ * Escolhe o próximo item de um conjunto para o idioma atual
+ */
+export function pickNextItem<T>(
+  items: readonly T[],
+  keyOf: (item: T) => string,
+  lang: string,
+  scheduler: ItemScheduler = leitnerScheduler
+): T {
+  const code = toLanguageCode(lang)
+  const byKey = new Map(items.map((item) => [keyOf(item), item]))
+  const history = toReviews(getLearningEvents().filter((event) => event.lang === code && byKey.has(event.itemKey)))
+  return byKey.get(scheduler.pick([...byKey.keys()], history))!
+}
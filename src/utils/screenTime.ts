@@ -0,0 +1,192 @@
+import { useSyncExternalStore } from 'react'
+import { getSettings, subscribeSettings } from './settings'
+import { toDayKey } from './progress'
+
+/**
+ * Limite de tempo de tela: um total por dia e um limite por sessão, definidos pelos pais
+ * O tempo só conta com a aba visível e fica salvo para sobreviver ao recarregar
+ * Quando o tempo acaba, o app bloqueia até um adulto liberar ou até o dia seguinte
+ */
+
+export type BreakReason = 'daily' | 'session'
+
+export interface ScreenTimeState {
+  /** Dia (AAAA-MM-DD) a que os contadores se referem */
+  day: string
+  /** Tempo usado no dia */
+  usedMs: number
+  /** Tempo usado na sessão atual */
+  sessionMs: number
+  /** Última vez que o tempo foi contado, para saber se a sessão continua */
+  lastActiveAt: number
+  /** Motivo do bloqueio atual (null = liberado) */
+  locked: BreakReason | null
+  /** Um adulto liberou o app depois do limite diário: sem limite diário no resto do dia */
+  dailyLimitLifted: boolean
+}
+
+const STORAGE_KEY = 'aprendeplay:screenTime'
+const TICK_MS = 5000
+// Tempo longe do app que encerra a sessão
+const SESSION_GAP_MS = 10 * 60_000
+
+const listeners = new Set<() => void>()
+
+const emptyState = (now: number): ScreenTimeState => ({
+  day: toDayKey(now),
+  usedMs: 0,
+  sessionMs: 0,
+  lastActiveAt: now,
+  locked: null,
+  dailyLimitLifted: false,
+})
+
+function readStoredState(): ScreenTimeState {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null')
+    return stored && typeof stored === 'object' ? { ...emptyState(Date.now()), ...stored } : emptyState(Date.now())
+  } catch (error) {
+    console.warn('Erro ao ler tempo de tela:', error)
+    return emptyState(Date.now())
+  }
+}
+
+let state: ScreenTimeState = typeof localStorage === 'undefined' ? emptyState(Date.now()) : readStoredState()
+
+function setState(changes: Partial<ScreenTimeState>) {
+  state = { ...state, ...changes }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+  } catch (error) {
+    console.warn('Erro ao salvar tempo de tela:', error)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Novo dia zera tudo (inclusive o bloqueio); muito tempo longe zera a sessão
+ */
+function rollOver(now: number) {
+  if (state.day !== toDayKey(now)) {
+    setState(emptyState(now))
+  } else if (now - state.lastActiveAt > SESSION_GAP_MS && state.sessionMs > 0 && !state.locked) {
+    setState({ sessionMs: 0, lastActiveAt: now })
+  }
+}
+
+/**
+ * Qual limite acabou (null = ainda há tempo ou não há limites)
+ */
+export function getDueBreak(current: ScreenTimeState = state): BreakReason | null {
+  const { dailyLimitMinutes, sessionLimitMinutes } = getSettings()
+  if (dailyLimitMinutes > 0 && !current.dailyLimitLifted && current.usedMs >= dailyLimitMinutes * 60_000) return 'daily'
+  if (sessionLimitMinutes > 0 && current.sessionMs >= sessionLimitMinutes * 60_000) return 'session'
+  return null
+}
+
+// Jogos abertos: enquanto houver algum, o bloqueio espera a rodada terminar (takeBreakIfDue)
+let openGames = 0
+
+function lockIfDue() {
+  if (state.locked || openGames > 0) return
+  const reason = getDueBreak()
+  if (reason) setState({ locked: reason })
+}
+
+let lastTickAt = 0
+let timer: ReturnType<typeof setInterval> | null = null
+
+function tick() {
+  const now = Date.now()
+  rollOver(now)
+  if (!state.locked) {
+    // Limitar o intervalo para não contar o tempo em que o aparelho dormiu
+    const elapsed = Math.min(now - lastTickAt, TICK_MS * 2)
+    setState({ usedMs: state.usedMs + elapsed, sessionMs: state.sessionMs + elapsed, lastActiveAt: now })
+  }
+  lastTickAt = now
+  lockIfDue()
+}
+
+function updateTimer() {
+  const visible = document.visibilityState === 'visible'
+  if (visible && !timer) {
+    lastTickAt = Date.now()
+    rollOver(lastTickAt)
+    lockIfDue()
+    timer = setInterval(tick, TICK_MS)
+  } else if (!visible && timer) {
+    tick()
+    clearInterval(timer)
+    timer = null
+  }
+}
+
+/**
+ * Começa a contar o tempo de tela (chamado uma vez pelo App)
+ */
+export function startScreenTimeTracking(): () => void {
+  updateTimer()
+  document.addEventListener('visibilitychange', updateTimer)
+  // Limites alterados pelos pais valem na hora
+  const unsubscribe = subscribeSettings(lockIfDue)
+  return () => {
+    document.removeEventListener('visibilitychange', updateTimer)
+    unsubscribe()
+    if (timer) clearInterval(timer)
+    timer = null
+  }
+}
+
+export function getScreenTimeState(): ScreenTimeState {
+  return state
+}
+
+export function subscribeScreenTime(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function useScreenTime(): ScreenTimeState {
+  return useSyncExternalStore(subscribeScreenTime, getScreenTimeState)
+}
+
+/**
+ * Marca um jogo como aberto; retorna a função para fechá-lo (uso em useEffect)
+ */
+export function registerGame(): () => void {
+  openGames++
+  return () => {
+    openGames--
+    lockIfDue()
+  }
+}
+
+/**
+ * Chamado pelos jogos entre rodadas: se o tempo acabou, bloqueia e espera um adulto liberar
+ */
+export function takeBreakIfDue(): Promise<void> {
+  if (!state.locked) {
+    const reason = getDueBreak()
+    if (!reason) return Promise.resolve()
+    setState({ locked: reason })
+  }
+  return new Promise((resolve) => {
+    const unsubscribe = subscribeScreenTime(() => {
+      if (state.locked) return
+      unsubscribe()
+      resolve()
+    })
+  })
+}
+
+/**
+ * Liberação pelo adulto: começa uma nova sessão e, se foi o limite diário, libera o resto do dia
+ */
+export function unlockScreenTime(): void {
+  setState({
+    locked: null,
+    sessionMs: 0,
+    dailyLimitLifted: state.dailyLimitLifted || state.locked === 'daily',
+  })
+}
@@ -0,0 +1,88 @@
+import { useSyncExternalStore } from 'react'
+import type { LanguageCode } from '../i18n/languages'
+
+/**
+ * Configurações globais de áudio, fala e vibração
+ * Salvas no localStorage para sobreviver ao recarregar a página
+ */
+export interface Settings {
+  /** Volume da música de fundo (0 a 1) */
+  musicVolume: number
+  /** Volume dos efeitos sonoros (0 a 1) */
+  effectsVolume: number
+  /** Volume da fala (0 a 1) */
+  speechVolume: number
+  /** Velocidade da fala (0.5 a 1.5) */
+  speechRate: number
+  /** Tom da fala (0.5 a 2) */
+  speechPitch: number
+  /** Vibração ligada */
+  vibration: boolean
+  /** Voz escolhida por idioma (voiceURI); sem valor, a melhor voz instalada é usada */
+  voices: Partial<Record<LanguageCode, string>>
+  /** Tempo de tela por dia, em minutos (0 = sem limite) */
+  dailyLimitMinutes: number
+  /** Tempo de tela por sessão, em minutos (0 = sem limite) */
+  sessionLimitMinutes: number
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  musicVolume: 0.3,
+  effectsVolume: 0.5,
+  speechVolume: 1,
+  speechRate: 0.95,
+  speechPitch: 1,
+  vibration: true,
+  voices: {},
+  dailyLimitMinutes: 0,
+  sessionLimitMinutes: 0,
+}
+
+const STORAGE_KEY = 'aprendeplay:settings'
+
+const listeners = new Set<() => void>()
+
+function readStoredSettings(): Settings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    // Mesclar com os padrões para aceitar configurações salvas por versões antigas
+    return { ...DEFAULT_SETTINGS, ...(typeof stored === 'object' && stored ? stored : {}) }
+  } catch (error) {
+    console.warn('Erro ao ler configurações:', error)
+    return { ...DEFAULT_SETTINGS }
+  }
+}
+
+let settings: Settings = typeof localStorage === 'undefined' ? { ...DEFAULT_SETTINGS } : readStoredSettings()
+
+export function getSettings(): Settings {
+  return settings
+}
+
+export function subscribeSettings(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+/**
+ * Atualiza parte das configurações e salva
+ */
+export function updateSettings(changes: Partial<Settings>): void {
+  settings = { ...settings, ...changes }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.warn('Erro ao salvar configurações:', error)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+export function resetSettings(): void {
+  // Os limites de tempo de tela são dos pais: só mudam no painel dos pais
+  const { dailyLimitMinutes, sessionLimitMinutes } = settings
+  updateSettings({ ...DEFAULT_SETTINGS, dailyLimitMinutes, sessionLimitMinutes })
+}
+
+export function useSettings(): Settings {
+  return useSyncExternalStore(subscribeSettings, getSettings)
+}
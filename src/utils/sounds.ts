@@ -1,105 +1,283 @@
 /**
  * Utilitário para gerenciar sons do jogo
- * Usa Web Audio API para efeitos sonoros
+ * Todos os sons são sintetizados com a Web Audio API (osciladores + envelopes),
+ * sem arquivos externos: funcionam offline e não dependem de licenças de áudio
+ * Os volumes padrão vêm das configurações do usuário (utils/settings)
  */
 
-// Cache de áudio para evitar múltiplas instâncias
-let backgroundMusic: HTMLAudioElement | null = null
-let correctSound: HTMLAudioElement | null = null
-let wrongSound: HTMLAudioElement | null = null
+import { getSettings, subscribeSettings } from './settings'
 
-// URLs de sons (usando sons livres de royalty)
-const SOUNDS = {
-  // Música ambiente calma para crianças
-  background: 'https://assets.mixkit.co/music/preview/mixkit-kids-fun-12.mp3',
-  // Som de acerto
-  correct: 'https://assets.mixkit.co/sfx/preview/mixkit-winning-chimes-2015.mp3',
-  // Som de erro
-  wrong: 'https://assets.mixkit.co/sfx/preview/mixkit-wrong-answer-fail-notification-946.mp3',
+export type SoundEffect = 'correct' | 'wrong' | 'tap' | 'levelUp' | 'streak' | 'tick'
+
+/**
+ * Nota de um efeito sonoro
+ * Tempos em segundos, relativos ao início do efeito
+ */
+interface Note {
+  freq: number
+  start: number
+  duration: number
+  type?: OscillatorType
+  /** Volume relativo da nota (0 a 1) */
+  gain?: number
+  /** Frequência final, para deslizar o tom (glissando) */
+  slideTo?: number
+}
+
+// Frequências (Hz) das notas usadas
+const C5 = 523.25
+const E5 = 659.25
+const G5 = 783.99
+const C6 = 1046.5
+const E6 = 1318.51
+const G6 = 1567.98
+
+const EFFECTS: Record<SoundEffect, Note[]> = {
+  // Sino ascendente de três notas
+  correct: [
+    { freq: C6, start: 0, duration: 0.35, type: 'triangle' },
+    { freq: E6, start: 0.09, duration: 0.35, type: 'triangle' },
+    { freq: G6, start: 0.18, duration: 0.5, type: 'triangle' },
+  ],
+  // Zumbido grave descendente
+  wrong: [
+    { freq: 220, start: 0, duration: 0.22, type: 'square', gain: 0.35, slideTo: 160 },
+    { freq: 160, start: 0.2, duration: 0.32, type: 'square', gain: 0.35, slideTo: 110 },
+  ],
+  // Toque curto
+  tap: [{ freq: 880, start: 0, duration: 0.07, type: 'sine', gain: 0.6, slideTo: 660 }],
+  // Arpejo de subida de nível
+  levelUp: [
+    { freq: C5, start: 0, duration: 0.15, type: 'triangle' },
+    { freq: E5, start: 0.08, duration: 0.15, type: 'triangle' },
+    { freq: G5, start: 0.16, duration: 0.15, type: 'triangle' },
+    { freq: C6, start: 0.24, duration: 0.45, type: 'triangle' },
+  ],
+  // Fanfarra de sequência de acertos
+  streak: [
+    { freq: G5 / 2, start: 0, duration: 0.12, type: 'square', gain: 0.3 },
+    { freq: C5, start: 0.12, duration: 0.12, type: 'square', gain: 0.3 },
+    { freq: E5, start: 0.24, duration: 0.12, type: 'square', gain: 0.3 },
+    { freq: C5, start: 0.4, duration: 0.7, type: 'triangle', gain: 0.6 },
+    { freq: E5, start: 0.4, duration: 0.7, type: 'triangle', gain: 0.6 },
+    { freq: G5, start: 0.4, duration: 0.7, type: 'triangle', gain: 0.6 },
+    { freq: C6, start: 0.4, duration: 0.7, type: 'triangle', gain: 0.6 },
+  ],
+  // Tique de contagem regressiva
+  tick: [{ freq: 1200, start: 0, duration: 0.04, type: 'sine', gain: 0.8 }],
 }
 
+const ATTACK = 0.01
+const SILENCE = 0.0001
+
 /**
- * Inicializa e toca música de fundo
+ * Toca uma nota com envelope (ataque rápido, decaimento exponencial)
  */
-export function playBackgroundMusic(volume: number = 0.3): void {
-  try {
-    if (!backgroundMusic) {
-      backgroundMusic = new Audio(SOUNDS.background)
-      backgroundMusic.loop = true
-      backgroundMusic.volume = volume
-    }
+function scheduleNote(ctx: BaseAudioContext, note: Note, destination: AudioNode, when: number, volume: number): void {
+  const start = when + note.start
+  const end = start + note.duration
+  const peak = Math.max(SILENCE, volume * (note.gain ?? 1))
 
-    if (backgroundMusic.paused) {
-      backgroundMusic.play().catch(() => {
-        // Ignora erro se autoplay bloqueado
-      })
-    }
-  } catch (error) {
-    console.warn('Erro ao tocar música de fundo:', error)
+  const oscillator = ctx.createOscillator()
+  oscillator.type = note.type ?? 'sine'
+  oscillator.frequency.setValueAtTime(note.freq, start)
+  if (note.slideTo) {
+    oscillator.frequency.exponentialRampToValueAtTime(note.slideTo, end)
   }
+
+  const envelope = ctx.createGain()
+  envelope.gain.setValueAtTime(SILENCE, start)
+  envelope.gain.exponentialRampToValueAtTime(peak, start + ATTACK)
+  envelope.gain.exponentialRampToValueAtTime(SILENCE, end)
+
+  oscillator.connect(envelope)
+  envelope.connect(destination)
+  oscillator.start(start)
+  oscillator.stop(end + 0.02)
 }
 
 /**
- * Para música de fundo
+ * Duração total de um efeito, em segundos
  */
-export function stopBackgroundMusic(): void {
-  if (backgroundMusic) {
-    backgroundMusic.pause()
-    backgroundMusic.currentTime = 0
-  }
+export function getEffectDuration(effect: SoundEffect): number {
+  return Math.max(...EFFECTS[effect].map((note) => note.start + note.duration)) + 0.02
 }
 
 /**
- * Ajusta volume da música de fundo
+ * Agenda um efeito em qualquer contexto de áudio (AudioContext ou OfflineAudioContext)
+ * Não usa aleatoriedade: o mesmo efeito sempre gera o mesmo sinal
  */
-export function setBackgroundMusicVolume(volume: number): void {
-  if (backgroundMusic) {
-    backgroundMusic.volume = Math.max(0, Math.min(1, volume))
+export function scheduleEffect(
+  ctx: BaseAudioContext,
+  effect: SoundEffect,
+  destination: AudioNode = ctx.destination,
+  when: number = ctx.currentTime,
+  volume: number = 0.5
+): void {
+  EFFECTS[effect].forEach((note) => scheduleNote(ctx, note, destination, when, volume))
+}
+
+type OfflineAudioContextConstructor = typeof OfflineAudioContext
+
+// Safari antigo só tem o construtor com prefixo; fora do navegador (scripts, testes) não há nenhum
+function getOfflineAudioContext(): OfflineAudioContextConstructor | null {
+  if (typeof window === 'undefined') return null
+  const audioWindow = window as Window & {
+    OfflineAudioContext?: OfflineAudioContextConstructor
+    webkitOfflineAudioContext?: OfflineAudioContextConstructor
   }
+  return audioWindow.OfflineAudioContext ?? audioWindow.webkitOfflineAudioContext ?? null
 }
 
 /**
- * Toca som de resposta correta
+ * Renderiza um efeito em um buffer, sem tocar, para inspecionar o sinal no console do navegador
+ * Não há verificação automática: o Node não tem OfflineAudioContext
+ * @returns null quando o navegador não tem OfflineAudioContext
  */
-export function playCorrectSound(volume: number = 0.5): void {
-  try {
-    if (!correctSound) {
-      correctSound = new Audio(SOUNDS.correct)
-    }
-    correctSound.volume = volume
-    correctSound.currentTime = 0
-    correctSound.play().catch(() => {
+export function renderEffect(
+  effect: SoundEffect,
+  volume: number = 0.5,
+  sampleRate: number = 44100
+): Promise<AudioBuffer | null> {
+  const OfflineContext = getOfflineAudioContext()
+  if (!OfflineContext) return Promise.resolve(null)
+
+  const ctx = new OfflineContext(1, Math.ceil(getEffectDuration(effect) * sampleRate), sampleRate)
+  scheduleEffect(ctx, effect, ctx.destination, 0, volume)
+  return new Promise((resolve, reject) => {
+    // O Safari com prefixo não devolve Promise em startRendering; o buffer chega pelo oncomplete
+    ctx.oncomplete = (event) => resolve(event.renderedBuffer)
+    const rendering = ctx.startRendering() as Promise<AudioBuffer> | undefined
+    rendering?.catch(reject)
+  })
+}
+
+// Contexto compartilhado, criado no primeiro som (depois de um toque do usuário)
+let audioContext: AudioContext | null = null
+
+function getAudioContext(): AudioContext | null {
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null
+  if (!audioContext) {
+    audioContext = new AudioContext()
+  }
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(() => {
       // Ignora erro se autoplay bloqueado
     })
+  }
+  return audioContext
+}
+
+/**
+ * Toca um efeito sonoro
+ */
+export function playSound(effect: SoundEffect, volume: number = getSettings().effectsVolume): void {
+  if (volume <= 0) return
+  try {
+    const ctx = getAudioContext()
+    if (ctx) scheduleEffect(ctx, effect, ctx.destination, ctx.currentTime, volume)
   } catch (error) {
-    console.warn('Erro ao tocar som de acerto:', error)
+    console.warn('Erro ao tocar efeito sonoro:', error)
   }
 }
 
+/**
+ * Toca som de resposta correta
+ */
+export function playCorrectSound(volume: number = getSettings().effectsVolume): void {
+  playSound('correct', volume)
+}
+
 /**
  * Toca som de resposta errada
  */
-export function playWrongSound(volume: number = 0.5): void {
-  try {
-    if (!wrongSound) {
-      wrongSound = new Audio(SOUNDS.wrong)
+export function playWrongSound(volume: number = getSettings().effectsVolume): void {
+  playSound('wrong', volume)
+}
+
+// Música de fundo: melodia pentatônica em loop, agendada um pouco à frente
+const MUSIC_TEMPO = 0.3 // segundos por tempo
+const MUSIC_LOOKAHEAD = 1 // segundos agendados à frente
+const MUSIC_MELODY: [number, number][] = [
+  [C5, 1], [E5, 1], [G5, 2], [E5, 1], [C5 * 1.125, 1], [C5, 2],
+  [G5, 1], [E5, 1], [C5 * 1.125, 1], [E5, 1], [C5, 4],
+]
+
+let musicGain: GainNode | null = null
+let musicTimer: ReturnType<typeof setInterval> | null = null
+let musicNextTime = 0
+let musicStep = 0
+
+function scheduleMusic(ctx: AudioContext, output: GainNode): void {
+  while (musicNextTime < ctx.currentTime + MUSIC_LOOKAHEAD) {
+    const [freq, beats] = MUSIC_MELODY[musicStep]
+    const duration = beats * MUSIC_TEMPO
+    scheduleNote(ctx, { freq, start: 0, duration: duration * 0.9, type: 'sine' }, output, musicNextTime, 1)
+    // Baixo suave no início de cada frase
+    if (musicStep === 0 || musicStep === 6) {
+      scheduleNote(ctx, { freq: C5 / 4, start: 0, duration: 1.2, type: 'triangle', gain: 0.6 }, output, musicNextTime, 1)
     }
-    wrongSound.volume = volume
-    wrongSound.currentTime = 0
-    wrongSound.play().catch(() => {
-      // Ignora erro se autoplay bloqueado
-    })
+    musicNextTime += duration
+    musicStep = (musicStep + 1) % MUSIC_MELODY.length
+  }
+}
+
+/**
+ * Inicializa e toca música de fundo
+ * Com volume zero a música continua agendada em silêncio, pronta para voltar se o volume subir
+ */
+export function playBackgroundMusic(volume: number = getSettings().musicVolume): void {
+  try {
+    const ctx = getAudioContext()
+    if (!ctx || musicTimer) return
+
+    musicGain = ctx.createGain()
+    musicGain.gain.value = volume * 0.4
+    musicGain.connect(ctx.destination)
+    musicNextTime = ctx.currentTime + 0.1
+    musicStep = 0
+
+    const output = musicGain
+    scheduleMusic(ctx, output)
+    musicTimer = setInterval(() => scheduleMusic(ctx, output), 250)
   } catch (error) {
-    console.warn('Erro ao tocar som de erro:', error)
+    console.warn('Erro ao tocar música de fundo:', error)
+  }
+}
+
+/**
+ * Para música de fundo
+ */
+export function stopBackgroundMusic(): void {
+  if (musicTimer) {
+    clearInterval(musicTimer)
+    musicTimer = null
+  }
+  if (musicGain) {
+    musicGain.disconnect()
+    musicGain = null
   }
 }
 
+/**
+ * Ajusta volume da música de fundo
+ */
+export function setBackgroundMusicVolume(volume: number): void {
+  if (musicGain) {
+    musicGain.gain.value = Math.max(0, Math.min(1, volume)) * 0.4
+  }
+}
+
+// Acompanhar mudanças de volume feitas na página de configurações
+subscribeSettings(() => setBackgroundMusicVolume(getSettings().musicVolume))
+
 /**
  * Limpa todos os recursos de áudio
  */
 export function cleanupSounds(): void {
   stopBackgroundMusic()
-  backgroundMusic = null
-  correctSound = null
-  wrongSound = null
+  if (audioContext) {
+    audioContext.close().catch(() => {})
+    audioContext = null
+  }
 }
@@ -1,10 +1,213 @@
-export function speak(text: string, lang: string) {
-  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
-  const utter = new SpeechSynthesisUtterance(text);
-  utter.lang = lang;
-  utter.rate = 0.95;
-  try {
-    speechSynthesis.cancel();
-    speechSynthesis.speak(utter);
-  } catch (e) { console.warn('Speech API error', e); }
+/**
+ * Serviço de fala (Web Speech API)
+ * - Cada fala retorna uma Promise que resolve quando termina (onend), é interrompida ou falha
+ * - speak() interrompe o que estiver sendo falado; enqueueSpeech() espera a vez na fila
+ * - Usa a voz escolhida nas configurações ou a melhor voz instalada para o idioma
+ * - Se os pais gravaram a voz para a chave informada, toca a gravação no lugar da voz
+ * - Sem voz para o idioma, toca o áudio gravado da chave informada (ver content/audio.ts)
+ */
+
+import { useSyncExternalStore } from 'react';
+import { getSettings } from './settings';
+import { toLanguageCode } from '../i18n/languages';
+import { getFallbackAudioUrl, playAudioFile, stopAudioFile } from './audioFallback';
+import { hasRecording, getRecording } from './recordings';
+
+export interface VoiceState {
+  voices: SpeechSynthesisVoice[];
+  /** false enquanto o navegador ainda não informou as vozes instaladas */
+  loaded: boolean;
+}
+
+// Alguns navegadores nunca disparam 'voiceschanged' quando não há vozes
+const VOICES_TIMEOUT_MS = 2000;
+// Margem para o caso de o navegador não disparar onend
+const END_TIMEOUT_MARGIN_MS = 3000;
+
+const isSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+let voiceState: VoiceState = { voices: [], loaded: false };
+const voiceListeners = new Set<() => void>();
+const warnedLanguages = new Set<string>();
+
+function setVoiceState(state: VoiceState) {
+  voiceState = state;
+  voiceListeners.forEach((listener) => listener());
+}
+
+function loadVoices() {
+  const voices = speechSynthesis.getVoices();
+  setVoiceState({ voices, loaded: voiceState.loaded || voices.length > 0 });
+}
+
+if (isSupported()) {
+  loadVoices();
+  speechSynthesis.addEventListener('voiceschanged', loadVoices);
+  setTimeout(() => {
+    if (!voiceState.loaded) setVoiceState({ ...voiceState, loaded: true });
+  }, VOICES_TIMEOUT_MS);
+} else {
+  voiceState = { voices: [], loaded: true };
+}
+
+export function getVoiceState(): VoiceState {
+  return voiceState;
+}
+
+export function subscribeVoices(listener: () => void): () => void {
+  voiceListeners.add(listener);
+  return () => voiceListeners.delete(listener);
+}
+
+export function useVoices(): VoiceState {
+  return useSyncExternalStore(subscribeVoices, getVoiceState);
+}
+
+// 'pt_BR' e 'pt-br' → 'pt-br'
+const normalizeLang = (lang: string) => lang.replace('_', '-').toLowerCase();
+const baseLang = (lang: string) => normalizeLang(lang).split('-')[0];
+
+/**
+ * Vozes instaladas para um idioma (ex: 'pt-BR' ou 'pt'), da mais indicada para a menos
+ */
+export function getVoicesForLanguage(lang: string, voices: SpeechSynthesisVoice[] = voiceState.voices): SpeechSynthesisVoice[] {
+  const wanted = normalizeLang(lang);
+  const score = (voice: SpeechSynthesisVoice) =>
+    (normalizeLang(voice.lang) === wanted ? 4 : 0) +
+    // Vozes locais funcionam offline
+    (voice.localService ? 2 : 0) +
+    (/natural|neural|enhanced|premium/i.test(voice.name) ? 1 : 0) +
+    (voice.default ? 1 : 0);
+
+  return voices
+    .filter((voice) => baseLang(voice.lang) === baseLang(lang))
+    .sort((a, b) => score(b) - score(a));
+}
+
+/**
+ * Voz usada para um idioma: a escolhida pelo usuário, se ainda estiver instalada, ou a melhor disponível
+ */
+export function getVoiceForLanguage(lang: string): SpeechSynthesisVoice | null {
+  const candidates = getVoicesForLanguage(lang);
+  const selected = getSettings().voices[toLanguageCode(lang)];
+  return candidates.find((voice) => voice.voiceURI === selected) ?? candidates[0] ?? null;
+}
+
+/**
+ * Se existe voz para o idioma; undefined enquanto as vozes não carregaram
+ */
+export function hasVoiceForLanguage(lang: string): boolean | undefined {
+  if (!voiceState.loaded) return undefined;
+  return getVoicesForLanguage(lang).length > 0;
+}
+
+/**
+ * Sem Web Speech API, ou sem nenhuma voz para o idioma depois de carregar a lista
+ */
+function needsFallback(lang: string): boolean {
+  return !isSupported() || (voiceState.loaded && getVoicesForLanguage(lang).length === 0);
+}
+
+// Fila própria: uma fala por vez, para cada Promise resolver no fim da sua fala
+let queueTail: Promise<void> = Promise.resolve();
+let generation = 0;
+
+async function speakNow(text: string, lang: string, audioKey: string | undefined, queuedGeneration: number): Promise<void> {
+  const { speechVolume } = getSettings();
+  if (speechVolume <= 0 || !text) return;
+
+  if (audioKey && hasRecording(lang, audioKey)) {
+    const blob = await getRecording(lang, audioKey).catch(() => null);
+    if (queuedGeneration !== generation) return;
+    if (blob) {
+      const url = URL.createObjectURL(blob);
+      try {
+        return await playAudioFile(url, speechVolume);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }
+  }
+
+  if (needsFallback(lang)) {
+    const url = audioKey ? await getFallbackAudioUrl(lang, audioKey) : null;
+    // Cancelada enquanto o manifesto carregava
+    if (queuedGeneration !== generation) return;
+    if (url) return playAudioFile(url, speechVolume);
+    if (!warnedLanguages.has(lang)) {
+      warnedLanguages.add(lang);
+      console.warn(`Nenhuma voz instalada para ${lang}`);
+    }
+  }
+
+  return speakWithVoice(text, lang);
+}
+
+function speakWithVoice(text: string, lang: string): Promise<void> {
+  return new Promise((resolve) => {
+    const { speechVolume, speechRate, speechPitch } = getSettings();
+    if (!isSupported()) {
+      resolve();
+      return;
+    }
+
+    const voice = getVoiceForLanguage(lang);
+
+    const utter = new SpeechSynthesisUtterance(text);
+    utter.lang = lang;
+    if (voice) utter.voice = voice;
+    utter.rate = speechRate;
+    utter.pitch = speechPitch;
+    utter.volume = speechVolume;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const finish = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    utter.onend = finish;
+    // Interrupções (cancel) também chegam aqui: a sequência segue sem travar
+    utter.onerror = finish;
+    timer = setTimeout(finish, (text.length * 100) / speechRate + END_TIMEOUT_MARGIN_MS);
+
+    try {
+      speechSynthesis.speak(utter);
+    } catch (e) {
+      console.warn('Speech API error', e);
+      finish();
+    }
+  });
+}
+
+/**
+ * Fala depois que as falas anteriores terminarem
+ * @param audioKey - Chave do áudio gravado usado quando não há voz (ex: getAudioKey('colors', 'red'))
+ */
+export function enqueueSpeech(text: string, lang: string, audioKey?: string): Promise<void> {
+  const queuedGeneration = generation;
+  const next = queueTail.then(() => (queuedGeneration === generation ? speakNow(text, lang, audioKey, queuedGeneration) : undefined));
+  queueTail = next;
+  return next;
+}
+
+/**
+ * Interrompe a fala atual e descarta a fila; as Promises pendentes resolvem
+ */
+export function cancelSpeech() {
+  generation++;
+  queueTail = Promise.resolve();
+  stopAudioFile();
+  if (isSupported()) {
+    try {
+      speechSynthesis.cancel();
+    } catch (e) { console.warn('Speech API error', e); }
+  }
+}
+
+/**
+ * Fala agora, interrompendo o que estiver sendo falado
+ */
+export function speak(text: string, lang: string, audioKey?: string): Promise<void> {
+  cancelSpeech();
+  return enqueueSpeech(text, lang, audioKey);
 }
@@ -0,0 +1,82 @@
+import type { Stroke, StrokePoint } from '../content/strokes'
+import type { AgeBand } from './profiles'
+
+/**
+ * Conferência dos traços desenhados pela criança contra os modelos de src/content/strokes.ts
+ * Tudo nas coordenadas dos modelos (caixa de 0 a 100)
+ */
+
+// Pontos usados para comparar um traço desenhado com o modelo
+const SAMPLE_POINTS = 32
+// Traços mais curtos que isso são toques (pingo do i e do j)
+const TAP_LENGTH = 5
+
+// Distância média aceita entre o traço e o modelo; mais folga para os menores
+const TOLERANCE_BY_AGE: Record<AgeBand, number> = { '2-3': 18, '4-5': 15, '6-7': 12, '8+': 10 }
+
+/**
+ * Folga do traçado pela faixa de idade do perfil (convidado usa a dos 4-5 anos)
+ */
+export function getTraceTolerance(ageBand?: AgeBand): number {
+  return TOLERANCE_BY_AGE[ageBand ?? '4-5']
+}
+
+const distance = (a: StrokePoint, b: StrokePoint) => Math.hypot(a[0] - b[0], a[1] - b[1])
+
+/**
+ * Comprimento total de um traço
+ */
+export function strokeLength(stroke: Stroke): number {
+  return stroke.slice(1).reduce((total, point, i) => total + distance(stroke[i], point), 0)
+}
+
+/**
+ * Ponto a uma fração (0 a 1) do comprimento do traço; usado também na demonstração animada
+ */
+export function pointAlong(stroke: Stroke, fraction: number): StrokePoint {
+  const target = strokeLength(stroke) * Math.min(Math.max(fraction, 0), 1)
+  let walked = 0
+  for (let i = 1; i < stroke.length; i++) {
+    const segment = distance(stroke[i - 1], stroke[i])
+    if (walked + segment >= target && segment > 0) {
+      const t = (target - walked) / segment
+      return [
+        stroke[i - 1][0] + (stroke[i][0] - stroke[i - 1][0]) * t,
+        stroke[i - 1][1] + (stroke[i][1] - stroke[i - 1][1]) * t,
+      ]
+    }
+    walked += segment
+  }
+  return stroke[stroke.length - 1]
+}
+
+/**
+ * Traço reamostrado em pontos igualmente espaçados
+ */
+function resample(stroke: Stroke, count: number): Stroke {
+  return Array.from({ length: count }, (_, i) => pointAlong(stroke, i / (count - 1)))
+}
+
+/**
+ * Confere um traço desenhado contra o traço do modelo
+ * Compara ponto a ponto depois de reamostrar os dois, então começar do lado errado
+ * ou fazer o movimento ao contrário não passa, mesmo que o desenho fique parecido
+ */
+export function matchesStroke(drawn: Stroke, template: Stroke, tolerance: number): boolean {
+  if (drawn.length === 0) return false
+
+  // Toque: basta acertar o lugar
+  if (strokeLength(template) < TAP_LENGTH) {
+    return distance(drawn[0], template[0]) <= tolerance && strokeLength(drawn) < tolerance
+  }
+
+  if (drawn.length < 2 || strokeLength(drawn) < strokeLength(template) / 2) return false
+  if (distance(drawn[0], template[0]) > tolerance * 1.5) return false
+  if (distance(drawn[drawn.length - 1], template[template.length - 1]) > tolerance * 1.5) return false
+
+  const drawnPoints = resample(drawn, SAMPLE_POINTS)
+  const templatePoints = resample(template, SAMPLE_POINTS)
+  const averageDistance =
+    drawnPoints.reduce((total, point, i) => total + distance(point, templatePoints[i]), 0) / SAMPLE_POINTS
+  return averageDistance <= tolerance
+}
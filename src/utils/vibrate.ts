@@ -2,11 +2,16 @@
  * Utilitário para vibração em dispositivos mobile
  */
 
+import { getSettings } from './settings';
+
 /**
  * Executa um padrão de vibração no dispositivo
+ * Não faz nada se a vibração estiver desligada nas configurações
  * @param pattern - Número (ms) ou array de valores para padrão (vibra, pausa, vibra...)
  */
 export function vibrate(pattern: number | number[] = 50): void {
+  // Respeitar a opção de vibração das configurações
+  if (!getSettings().vibration) return;
   if ('vibrate' in navigator) {
     try {
       navigator.vibrate(pattern);
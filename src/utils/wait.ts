@@ -0,0 +1,7 @@
+/**
+ * Promise que resolve depois de um tempo (ms)
+ * Usada para garantir um tempo mínimo de exibição das animações entre falas
+ */
+export function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { validateAudioManifest, formatIssue } from './src/content/validate';
+import { getAudioKey, AUDIO_PHRASES } from './src/content/audio';
+import { SUPPORTED_LANGUAGES } from './src/i18n/languages';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const dataDir = path.join(__dirname, 'src', 'data');
+const audioDir = path.join(__dirname, 'public', 'audio');
+const manifestFile = path.join(audioDir, 'manifest.json');
+
+// Arquivos de conteúdo que precisam de áudio (a origem é o nome do arquivo sem .json)
+const DATA_FILES = ['letters.json', 'numbers.json', 'colors.json', 'words.json'];
+
+// Chaves de todos os itens e frases que um idioma com áudio gravado precisa cobrir
+function collectExpectedKeys(): string[] {
+  const itemKeys = DATA_FILES.flatMap((file) => {
+    const items = JSON.parse(fs.readFileSync(path.join(dataDir, file), 'utf-8')) as { id: string }[];
+    return items.map((item) => getAudioKey(path.basename(file, '.json'), item.id));
+  });
+  return [...itemKeys, ...AUDIO_PHRASES.map((phrase) => getAudioKey('phrases', phrase))];
+}
+
+function main() {
+  console.log('🔊 Validando public/audio/manifest.json...');
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestFile, 'utf-8'));
+  } catch (error) {
+    console.error(`❌ Não foi possível ler o manifesto: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const expectedKeys = collectExpectedKeys();
+  const issues = validateAudioManifest('audio/manifest.json', manifest, expectedKeys, (file) =>
+    fs.existsSync(path.join(audioDir, file))
+  );
+
+  if (issues.length > 0) {
+    console.error(`\n❌ ${issues.length} problema(s) encontrado(s):`);
+    issues.forEach((issue) => console.error(`  - ${formatIssue(issue)}`));
+    process.exit(1);
+  }
+
+  const languages = Object.keys((manifest as { languages: object }).languages);
+  const withoutAudio = SUPPORTED_LANGUAGES.filter((lang) => !languages.includes(lang));
+  console.log(`\n✅ ${languages.length} idioma(s) com áudio gravado para ${expectedKeys.length} itens e frases`);
+  if (withoutAudio.length > 0) {
+    console.log(`ℹ️  Sem áudio gravado (só voz do dispositivo): ${withoutAudio.join(', ')}`);
+  }
+}
+
+main();
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  validateItems,
+  validatePack,
+  validateTranslationParity,
+  validateAchievements,
+  formatIssue,
+  type ContentIssue,
+} from './src/content/validate';
+import type { ContentKind } from './src/content/types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const dataDir = path.join(__dirname, 'src', 'data');
+const i18nDir = path.join(__dirname, 'src', 'i18n');
+const packsDir = path.join(__dirname, 'examples', 'packs');
+const achievementsFile = path.join(__dirname, 'src', 'content', 'achievements.json');
+
+// Arquivos com formato diferente do item básico
+const KINDS: Record<string, ContentKind> = {
+  'colors.json': 'color',
+  'words.json': 'word',
+};
+
+function readJson(file: string): unknown {
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+// Validar todos os arquivos de conteúdo
+function validateDataFiles(): ContentIssue[] {
+  const files = fs.readdirSync(dataDir).filter((file) => file.endsWith('.json')).sort();
+  console.log(`Validando ${files.length} arquivos em src/data...`);
+
+  return files.flatMap((file) => {
+    try {
+      return validateItems(file, readJson(path.join(dataDir, file)), KINDS[file] ?? 'item');
+    } catch (error) {
+      return [{ source: file, message: `JSON inválido: ${(error as Error).message}` }];
+    }
+  });
+}
+
+// Validar os pacotes de exemplo (mesmo formato dos carregados pelo app)
+function validateExamplePacks(): ContentIssue[] {
+  if (!fs.existsSync(packsDir)) return [];
+  const files = fs.readdirSync(packsDir).filter((file) => file.endsWith('.json')).sort();
+  console.log(`Validando ${files.length} pacotes em examples/packs...`);
+
+  return files.flatMap((file) => {
+    try {
+      return validatePack(`packs/${file}`, readJson(path.join(packsDir, file)));
+    } catch (error) {
+      return [{ source: `packs/${file}`, message: `JSON inválido: ${(error as Error).message}` }];
+    }
+  });
+}
+
+// Validar as conquistas; alvo 'all' pode apontar para qualquer arquivo de src/data (ex: 'letters')
+function validateAchievementsFile(): ContentIssue[] {
+  console.log('Validando conquistas em src/content/achievements.json...');
+  const sources = fs.readdirSync(dataDir).filter((file) => file.endsWith('.json')).map((file) => path.basename(file, '.json'));
+
+  try {
+    return validateAchievements('achievements.json', readJson(achievementsFile), sources);
+  } catch (error) {
+    return [{ source: 'achievements.json', message: `JSON inválido: ${(error as Error).message}` }];
+  }
+}
+
+// Validar paridade de chaves entre as traduções da interface
+function validateLocales(): ContentIssue[] {
+  const files = fs.readdirSync(i18nDir).filter((file) => file.endsWith('.json'));
+  console.log(`Validando ${files.length} arquivos em src/i18n...`);
+
+  const locales = Object.fromEntries(
+    files.map((file) => [path.basename(file, '.json'), readJson(path.join(i18nDir, file))])
+  );
+  return validateTranslationParity(locales);
+}
+
+function main() {
+  const issues = [...validateDataFiles(), ...validateExamplePacks(), ...validateAchievementsFile(), ...validateLocales()];
+
+  if (issues.length > 0) {
+    console.error(`\n❌ ${issues.length} problema(s) encontrado(s):`);
+    issues.forEach((issue) => console.error(`  - ${formatIssue(issue)}`));
+    process.exit(1);
+  }
+
+  console.log('\n✅ Conteúdo e traduções válidos!');
+}
+
+main();
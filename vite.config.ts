@@ -1,8 +1,23 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // Service worker para funcionar offline (src/sw.ts)
+    VitePWA({
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.ts',
+      registerType: 'prompt',
+      // O manifest fica em public/manifest.json
+      manifest: false,
+      injectManifest: {
+        globPatterns: ['**/*.{js,css,html,png,ico,svg,json,txt,xml}'],
+      },
+    }),
+  ],
   base: process.env.NODE_ENV === 'production' ? '/AprendePlay/' : '/',
   build: {
     // Otimizações de build para melhor SEO e performance